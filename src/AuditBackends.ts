@@ -0,0 +1,410 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import { AuditResult, AuditableKind, SecurityIssue } from './SecurityAuditor';
+import { scanForIssues, statusForIssues } from './HeuristicScanner';
+import { scanInstructions } from './InstructionAnalyzer';
+import { AuditCategory, AuditPromptConfig, buildAuditPrompt } from './AuditPrompt';
+
+export type AuditBackendId = 'heuristic' | 'claude' | 'command';
+
+export const AUDIT_BACKEND_IDS: AuditBackendId[] = ['heuristic', 'claude', 'command'];
+
+// Bump when the layout of AuditBundle changes
+const BUNDLE_SCHEMA_VERSION = 1;
+
+const BACKEND_TIMEOUT_MS = 120000;
+
+/**
+ * The files of one item as handed to a backend. External commands receive
+ * this as JSON on stdin.
+ */
+export interface AuditBundle {
+    schemaVersion: number;
+    itemName: string;
+    itemType: AuditableKind;
+    itemPath: string;
+    categories: AuditCategory[];  // what to look for, from the audit prompt configuration
+    files: { file: string; content: string }[];
+}
+
+/**
+ * What a backend found in a bundle
+ */
+export interface BackendReport {
+    status: AuditResult['status'];
+    issues: SecurityIssue[];
+    rawResponse?: string;
+}
+
+/**
+ * One way of auditing a bundle. Backends throw when they cannot run; the
+ * auditor decides whether other backends make up for it.
+ */
+export interface AuditBackend {
+    readonly id: AuditBackendId;
+    readonly label: string;
+    // Identifies the backend and its configuration in the audit cache
+    readonly cacheKey: string;
+    audit(bundle: AuditBundle, token?: vscode.CancellationToken): Promise<BackendReport>;
+}
+
+/**
+ * Error of a command that could not run or exited with a non-zero code
+ */
+interface CommandError extends Error {
+    code?: number | string | null;
+    stdout?: string;
+    stderr?: string;
+}
+
+/**
+ * Execute a command with input via stdin
+ * This avoids shell command length limits by not passing data as arguments.
+ * Cancelling the token kills the child process.
+ */
+async function execWithStdin(
+    command: string,
+    args: string[],
+    input: string,
+    options: { timeout?: number; token?: vscode.CancellationToken; shell?: boolean } = {}
+): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            reject(new Error('Audit cancelled'));
+            return;
+        }
+
+        const child = cp.spawn(command, args, {
+            stdio: ['pipe', 'pipe', 'pipe'],
+            timeout: options.timeout || BACKEND_TIMEOUT_MS,
+            shell: options.shell
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let killed = false;
+
+        // Set up timeout
+        const timeoutId = setTimeout(() => {
+            killed = true;
+            child.kill('SIGTERM');
+            reject(new Error(`Command timed out after ${options.timeout || BACKEND_TIMEOUT_MS}ms`));
+        }, options.timeout || BACKEND_TIMEOUT_MS);
+
+        const cancellation = options.token?.onCancellationRequested(() => {
+            killed = true;
+            clearTimeout(timeoutId);
+            child.kill('SIGTERM');
+            reject(new Error('Audit cancelled'));
+        });
+
+        child.stdout?.on('data', (data) => {
+            stdout += data.toString();
+        });
+
+        child.stderr?.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        child.on('error', (error) => {
+            clearTimeout(timeoutId);
+            cancellation?.dispose();
+            reject(error);
+        });
+
+        child.on('close', (code) => {
+            clearTimeout(timeoutId);
+            cancellation?.dispose();
+            if (killed) return;
+
+            if (code === 0) {
+                resolve({ stdout, stderr });
+            } else {
+                const error: CommandError = new Error(`Command failed with exit code ${code}`);
+                error.code = code;
+                error.stdout = stdout;
+                error.stderr = stderr;
+                reject(error);
+            }
+        });
+
+        // Scanners that do not read all of stdin may close it early
+        child.stdin?.on('error', () => { });
+
+        // Write input to stdin and close it
+        child.stdin?.write(input);
+        child.stdin?.end();
+    });
+}
+
+/**
+ * Parse the audit JSON schema ({ status, issues, summary }), also when it is
+ * wrapped in a code fence or surrounded by text. Throws when there is no JSON.
+ */
+export function parseAuditJson(response: string): BackendReport {
+    let jsonStr = response.trim();
+
+    // Handle Claude's output format which may have wrapper
+    if (jsonStr.includes('```json')) {
+        const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
+        if (match) {
+            jsonStr = match[1];
+        }
+    } else if (jsonStr.includes('```')) {
+        const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
+        if (match) {
+            jsonStr = match[1];
+        }
+    }
+
+    // Try to find JSON object in response
+    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+        jsonStr = jsonMatch[0];
+    }
+
+    const parsed = JSON.parse(jsonStr);
+
+    return {
+        status: normalizeStatus(parsed.status),
+        issues: (Array.isArray(parsed.issues) ? parsed.issues : []).map((issue: any): SecurityIssue => {
+            const column = toPositiveInteger(issue.column);
+            const endColumn = toPositiveInteger(issue.endColumn);
+            return {
+                severity: normalizeSeverity(issue.severity),
+                type: typeof issue.type === 'string' && issue.type ? issue.type : 'other',
+                description: typeof issue.description === 'string' && issue.description ? issue.description : 'Unknown issue',
+                file: typeof issue.file === 'string' && issue.file ? issue.file : undefined,
+                line: toPositiveInteger(issue.line),
+                column,
+                endColumn: column && endColumn && endColumn > column ? endColumn : undefined,
+                suggestion: typeof issue.suggestion === 'string' ? issue.suggestion : undefined
+            };
+        }),
+        rawResponse: response
+    };
+}
+
+/**
+ * Line and column numbers from a backend: positive integers, also when sent
+ * as strings like "12". Anything else is dropped.
+ */
+function toPositiveInteger(value: unknown): number | undefined {
+    const number = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+    return typeof number === 'number' && Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Normalize status value
+ */
+function normalizeStatus(status: unknown): 'safe' | 'warning' | 'danger' | 'error' {
+    const s = (typeof status === 'string' ? status : '').toLowerCase();
+    if (s === 'safe' || s === 'clean' || s === 'ok') return 'safe';
+    if (s === 'warning' || s === 'warn' || s === 'caution') return 'warning';
+    if (s === 'danger' || s === 'critical' || s === 'malicious' || s === 'unsafe') return 'danger';
+    if (s === 'error') return 'error';
+    return 'warning'; // Default to warning if unknown
+}
+
+/**
+ * Normalize severity value
+ */
+function normalizeSeverity(severity: unknown): 'low' | 'medium' | 'high' | 'critical' {
+    const s = (typeof severity === 'string' ? severity : '').toLowerCase();
+    if (s === 'low' || s === 'info') return 'low';
+    if (s === 'medium' || s === 'moderate') return 'medium';
+    if (s === 'high' || s === 'severe') return 'high';
+    if (s === 'critical' || s === 'urgent') return 'critical';
+    return 'medium'; // Default to medium if unknown
+}
+
+/**
+ * Offline pattern rules from HeuristicScanner plus the InstructionAnalyzer
+ * checks of markdown instructions
+ */
+export class HeuristicBackend implements AuditBackend {
+    readonly id = 'heuristic';
+    readonly label = 'Heuristic scan';
+    readonly cacheKey = 'heuristic';
+
+    async audit(bundle: AuditBundle): Promise<BackendReport> {
+        const issues = [...scanForIssues(bundle.files), ...scanInstructions(bundle.files)];
+        return { status: statusForIssues(issues), issues, rawResponse: 'Heuristic scan' };
+    }
+}
+
+/**
+ * Sends the files to `claude --output-format json` with the audit prompt
+ */
+export class ClaudeCliBackend implements AuditBackend {
+    readonly id = 'claude';
+    readonly label = 'Claude CLI';
+    readonly cacheKey = 'claude';
+
+    constructor(private output: vscode.OutputChannel, private prompt: AuditPromptConfig) { }
+
+    async audit(bundle: AuditBundle, token?: vscode.CancellationToken): Promise<BackendReport> {
+        // Build audit prompt
+        const auditPrompt = buildAuditPrompt(this.prompt, bundle.files, bundle.itemName, bundle.itemType);
+
+        // Execute Claude CLI using stdin to avoid shell command length limits
+        try {
+            const { stdout, stderr } = await execWithStdin(
+                'claude',
+                ['--output-format', 'json'],
+                auditPrompt,
+                { timeout: BACKEND_TIMEOUT_MS, token }
+            );
+
+            if (stderr) {
+                this.output.appendLine(`Claude CLI stderr: ${stderr}`);
+            }
+
+            return this.parseResponse(stdout);
+        } catch (err: unknown) {
+            const error = err as CommandError;
+            // Check if Claude CLI is installed
+            if (error.message?.includes('command not found') ||
+                error.message?.includes('ENOENT') ||
+                error.code === 'ENOENT') {
+                throw new Error('Claude Code CLI not found. Please ensure Claude Code is installed and available in PATH.');
+            }
+
+            // If there's output despite error, try to parse it
+            if (error.stdout) {
+                try {
+                    return this.parseResponse(error.stdout);
+                } catch {
+                    // Fall through to throw original error
+                }
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Parse Claude's response. Unparseable answers are judged from their text.
+     */
+    private parseResponse(response: string): BackendReport {
+        try {
+            return parseAuditJson(response);
+        } catch (parseError) {
+            // If parsing fails, try to determine status from text
+            const lowerResponse = response.toLowerCase();
+            const hasDanger = lowerResponse.includes('critical') ||
+                            lowerResponse.includes('danger') ||
+                            lowerResponse.includes('malicious');
+            const hasWarning = lowerResponse.includes('warning') ||
+                             lowerResponse.includes('suspicious') ||
+                             lowerResponse.includes('concern');
+
+            return {
+                status: hasDanger ? 'danger' : (hasWarning ? 'warning' : 'safe'),
+                issues: hasDanger || hasWarning ? [{
+                    severity: hasDanger ? 'high' : 'medium',
+                    type: 'parse_error',
+                    description: `Could not parse audit response. Manual review recommended. Raw response available.`,
+                    suggestion: 'Review the raw audit response for details.'
+                }] : [],
+                rawResponse: response
+            };
+        }
+    }
+}
+
+/**
+ * Runs the command line in claudeCodeAssist.auditCommand through the shell,
+ * writes the bundle as JSON to its stdin and reads the audit JSON from stdout
+ */
+export class CommandBackend implements AuditBackend {
+    readonly id = 'command';
+    readonly label = 'External command';
+
+    constructor(private commandLine: string, private output: vscode.OutputChannel) { }
+
+    get cacheKey(): string {
+        return `command:${this.commandLine}`;
+    }
+
+    async audit(bundle: AuditBundle, token?: vscode.CancellationToken): Promise<BackendReport> {
+        if (!this.commandLine.trim()) {
+            throw new Error('No external audit command configured. Set claudeCodeAssist.auditCommand.');
+        }
+
+        const { stdout, stderr } = await execWithStdin(this.commandLine, [], JSON.stringify(bundle), {
+            timeout: BACKEND_TIMEOUT_MS,
+            token,
+            shell: true
+        });
+        if (stderr) {
+            this.output.appendLine(`Audit command stderr: ${stderr}`);
+        }
+
+        try {
+            return parseAuditJson(stdout);
+        } catch (error) {
+            // Unlike the CLI, a scanner must answer in the schema
+            throw new Error(`Audit command output is not valid audit JSON: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
+
+/**
+ * Backends of a run when none are picked: claudeCodeAssist.auditBackends
+ * when set, otherwise the older auditEngine setting
+ */
+/**
+ * Backends from user settings only: a cloned repository must not be able to
+ * pick the backends or the command they run
+ */
+export function getAuditBackendIds(): AuditBackendId[] {
+    const config = vscode.workspace.getConfiguration('claudeCodeAssist');
+    const configured = config.inspect<AuditBackendId[]>('auditBackends')?.globalValue;
+    if (Array.isArray(configured) && configured.length > 0) {
+        return configured.filter(id => AUDIT_BACKEND_IDS.includes(id));
+    }
+
+    const engine = config.inspect<string>('auditEngine')?.globalValue;
+    return engine === 'heuristic' || engine === 'claude' ? [engine] : ['heuristic', 'claude'];
+}
+
+export function getAuditCommand(): string {
+    return vscode.workspace.getConfiguration('claudeCodeAssist').inspect<string>('auditCommand')?.globalValue || '';
+}
+
+/**
+ * The command backend is left out in untrusted workspaces
+ */
+export function createAuditBackends(ids: AuditBackendId[], output: vscode.OutputChannel, prompt: AuditPromptConfig): AuditBackend[] {
+    const commandLine = getAuditCommand();
+    const backends: AuditBackend[] = [];
+    for (const id of ids) {
+        switch (id) {
+            case 'heuristic':
+                backends.push(new HeuristicBackend());
+                break;
+            case 'claude':
+                backends.push(new ClaudeCliBackend(output, prompt));
+                break;
+            case 'command':
+                if (vscode.workspace.isTrusted) {
+                    backends.push(new CommandBackend(commandLine, output));
+                } else {
+                    output.appendLine('Skipping the command audit backend: the workspace is not trusted');
+                }
+                break;
+        }
+    }
+    return backends;
+}
+
+export function createAuditBundle(
+    itemName: string,
+    itemType: AuditableKind,
+    itemPath: string,
+    files: { file: string; content: string }[],
+    prompt: AuditPromptConfig
+): AuditBundle {
+    return { schemaVersion: BUNDLE_SCHEMA_VERSION, itemName, itemType, itemPath, categories: prompt.categories, files };
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AssetLocation, USER_LOCATION, getScopeRoot, projectLocation } from './ClaudeAsset';
+import { AuditResult, SecurityIssue, getIssueFilePath } from './SecurityAuditor';
+import { statusForIssues } from './HeuristicScanner';
+import { getProjectRoots } from './WorkspacePaths';
+import { writeFileAtomic } from './Transaction';
+
+export const BASELINE_FILE = 'assist-audit-baseline.json';
+
+/**
+ * An accepted finding. item is the audited path relative to the .claude
+ * directory so the file can be committed and shared.
+ */
+export interface BaselineEntry {
+    item: string;
+    type: string;
+    file: string;
+    fingerprint: string;
+    description?: string;  // for reviewers only, not part of the match
+    acceptedAt: string;
+}
+
+export type BaselineFinding = Omit<BaselineEntry, 'item' | 'acceptedAt'>;
+
+interface BaselineFileContent {
+    version: number;
+    accepted: BaselineEntry[];
+}
+
+/**
+ * An audit result with accepted findings split off and the status
+ * recomputed from the rest
+ */
+export interface BaselinedResult extends AuditResult {
+    acceptedIssues: SecurityIssue[];
+}
+
+// Lines of audited files, so diagnostics refreshes do not read a file per finding
+const fileLines = new Map<string, { mtimeMs: number; size: number; lines: string[] }>();
+
+function readLines(filePath: string): string[] {
+    const stats = fs.statSync(filePath);
+    const cached = fileLines.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+        return cached.lines;
+    }
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    fileLines.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, lines });
+    return lines;
+}
+
+/**
+ * Fingerprint of a finding that survives unrelated edits: the finding type,
+ * its file and the text of the flagged line rather than the line number
+ */
+export function fingerprintIssue(result: AuditResult, issue: SecurityIssue): string {
+    let anchor = issue.description;
+    const filePath = getIssueFilePath(result, issue);
+    if (filePath && issue.line) {
+        try {
+            anchor = readLines(filePath)[issue.line - 1]?.trim() ?? anchor;
+        } catch {
+            // Fall back to the description when the file is gone
+            fileLines.delete(filePath);
+        }
+    }
+    return crypto.createHash('sha256').update(`${issue.type}\0${issue.file || ''}\0${anchor}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Accepted findings in .claude/assist-audit-baseline.json of each scope.
+ * Accepted findings stay out of statuses, notifications and diagnostics
+ * until their content changes. Project baselines come with the repository,
+ * so they are ignored until the workspace is trusted.
+ */
+export class AuditBaseline {
+    private files = new Map<string, { mtimeMs: number; entries: BaselineEntry[] }>();
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        vscode.workspace.onDidGrantWorkspaceTrust(() => this._onDidChange.fire());
+    }
+
+    /**
+     * Scope whose baseline covers an item: the project whose .claude
+     * directory contains it, otherwise the user scope
+     */
+    public getLocation(itemPath: string): AssetLocation {
+        const root = getProjectRoots().find(r => this.isInside(r.claudePath, itemPath));
+        return root ? projectLocation(root) : USER_LOCATION;
+    }
+
+    public getBaselinePath(location: AssetLocation): string {
+        return path.join(getScopeRoot(location), BASELINE_FILE);
+    }
+
+    public getEntries(location: AssetLocation): BaselineEntry[] {
+        if (location.scope === 'project' && !vscode.workspace.isTrusted) {
+            return [];
+        }
+        return this.read(this.getBaselinePath(location));
+    }
+
+    /**
+     * Findings of project items can only be accepted in a trusted workspace
+     */
+    public canAccept(itemPath: string): boolean {
+        return vscode.workspace.isTrusted || this.getLocation(itemPath).scope === 'user';
+    }
+
+    /**
+     * Absolute path of the item an entry belongs to
+     */
+    public resolveItemPath(location: AssetLocation, entry: BaselineEntry): string {
+        return path.resolve(getScopeRoot(location), entry.item);
+    }
+
+    public isAccepted(result: AuditResult, issue: SecurityIssue): boolean {
+        const location = this.getLocation(result.itemPath);
+        const entries = this.getEntries(location);
+        if (entries.length === 0) {
+            return false;
+        }
+        const item = this.getItemKey(location, result.itemPath);
+        const fingerprint = fingerprintIssue(result, issue);
+        return entries.some(entry => entry.item === item && entry.type === issue.type &&
+            entry.file === (issue.file || '') && entry.fingerprint === fingerprint);
+    }
+
+    /**
+     * Split accepted findings off a result and recompute its status. Failed
+     * audits keep their status.
+     */
+    public apply(result: AuditResult): BaselinedResult {
+        const issues: SecurityIssue[] = [];
+        const acceptedIssues: SecurityIssue[] = [];
+        for (const issue of result.issues) {
+            (issue.type !== 'audit_error' && this.isAccepted(result, issue) ? acceptedIssues : issues).push(issue);
+        }
+        if (acceptedIssues.length === 0) {
+            return { ...result, acceptedIssues };
+        }
+        return {
+            ...result,
+            issues,
+            acceptedIssues,
+            status: result.status === 'error' ? 'error' : statusForIssues(issues)
+        };
+    }
+
+    public accept(result: AuditResult, issues: SecurityIssue[]): void {
+        this.add(result.itemPath, issues.map(issue => ({
+            type: issue.type,
+            file: issue.file || '',
+            fingerprint: fingerprintIssue(result, issue),
+            description: issue.description
+        })));
+    }
+
+    public add(itemPath: string, findings: BaselineFinding[]): void {
+        if (!this.canAccept(itemPath)) {
+            throw new Error('Project audit baselines require a trusted workspace');
+        }
+        const location = this.getLocation(itemPath);
+        const item = this.getItemKey(location, itemPath);
+        const entries = [...this.getEntries(location)];
+        const acceptedAt = new Date().toISOString();
+
+        for (const finding of findings) {
+            const exists = entries.some(entry => entry.item === item && entry.type === finding.type &&
+                entry.file === finding.file && entry.fingerprint === finding.fingerprint);
+            if (!exists) {
+                entries.push({ item, ...finding, acceptedAt });
+            }
+        }
+        this.write(this.getBaselinePath(location), entries);
+    }
+
+    /**
+     * Take findings of a result out of the baseline again
+     */
+    public unaccept(result: AuditResult, issues: SecurityIssue[]): void {
+        const location = this.getLocation(result.itemPath);
+        const item = this.getItemKey(location, result.itemPath);
+        this.remove(location, issues.map(issue => ({
+            item,
+            type: issue.type,
+            file: issue.file || '',
+            fingerprint: fingerprintIssue(result, issue),
+            acceptedAt: ''
+        })));
+    }
+
+    /**
+     * Remove the given entries (compared by identity fields) from a scope's baseline
+     */
+    public remove(location: AssetLocation, removed: BaselineEntry[]): void {
+        const same = (a: BaselineEntry, b: BaselineEntry) =>
+            a.item === b.item && a.type === b.type && a.file === b.file && a.fingerprint === b.fingerprint;
+        const entries = this.getEntries(location).filter(entry => !removed.some(r => same(r, entry)));
+        this.write(this.getBaselinePath(location), entries);
+    }
+
+    /**
+     * Entries whose item is gone or whose finding the last audit no longer reports
+     */
+    public isStale(location: AssetLocation, entry: BaselineEntry, lastResult: AuditResult | undefined): boolean {
+        const itemPath = this.resolveItemPath(location, entry);
+        if (!fs.existsSync(itemPath)) {
+            return true;
+        }
+        if (!lastResult) {
+            return false;
+        }
+        return !lastResult.issues.some(issue => issue.type === entry.type && (issue.file || '') === entry.file &&
+            fingerprintIssue(lastResult, issue) === entry.fingerprint);
+    }
+
+    private getItemKey(location: AssetLocation, itemPath: string): string {
+        const scopeRoot = getScopeRoot(location);
+        return this.isInside(scopeRoot, itemPath)
+            ? path.relative(scopeRoot, itemPath).split(path.sep).join('/')
+            : itemPath;
+    }
+
+    private isInside(dirPath: string, filePath: string): boolean {
+        const relative = path.relative(dirPath, filePath);
+        return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    private read(filePath: string): BaselineEntry[] {
+        let mtimeMs: number;
+        try {
+            mtimeMs = fs.statSync(filePath).mtimeMs;
+        } catch {
+            return [];
+        }
+        const cached = this.files.get(filePath);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.entries;
+        }
+
+        let entries: BaselineEntry[] = [];
+        try {
+            const content = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BaselineFileContent;
+            entries = Array.isArray(content.accepted) ? content.accepted : [];
+        } catch {
+            // An unreadable baseline accepts nothing
+        }
+        this.files.set(filePath, { mtimeMs, entries });
+        return entries;
+    }
+
+    private write(filePath: string, entries: BaselineEntry[]): void {
+        const content: BaselineFileContent = { version: 1, accepted: entries };
+        writeFileAtomic(filePath, JSON.stringify(content, null, 2) + '\n');
+        this.files.delete(filePath);
+        this._onDidChange.fire();
+    }
+}
+
+// Singleton instance
+let instance: AuditBaseline | null = null;
+
+export function getAuditBaseline(): AuditBaseline {
+    if (!instance) {
+        instance = new AuditBaseline();
+    }
+    return instance;
+}
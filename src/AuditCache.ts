@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { AuditResult, AUDIT_PROMPT_VERSION, collectFileContents } from './SecurityAuditor';
+import { getAuditBaseline } from './AuditBaseline';
+import { writeJsonAtomic } from './Transaction';
+
+interface StoredAuditResult extends Omit<AuditResult, 'auditedAt'> {
+    auditedAt: string;
+}
+
+/**
+ * The last audit of an item path. A result is reused only when the content,
+ * the prompt version and the backends all match.
+ */
+interface AuditCacheEntry {
+    contentHash: string;
+    promptVersion: string;
+    engine: string;
+    result: StoredAuditResult;
+}
+
+export interface AuditState {
+    status: AuditResult['status'];
+    auditedAt: Date;
+    changed: boolean;  // content differs from what was audited
+}
+
+/**
+ * Persists audit results in ~/.claude/.assist-audit-cache.json so unchanged
+ * items are not sent to the auditor again
+ */
+export class AuditCache {
+    private cachePath: string;
+    private entries: Record<string, AuditCacheEntry> | null = null;
+    // Content hashes by item path, reused while no file changed size or mtime
+    private currentHashes = new Map<string, { signature: string; contentHash: string }>();
+    private readonly _onDidUpdate = new vscode.EventEmitter<string>();
+    // Fires with the item path whenever a result is stored
+    readonly onDidUpdate = this._onDidUpdate.event;
+
+    constructor() {
+        this.cachePath = path.join(os.homedir(), '.claude', '.assist-audit-cache.json');
+    }
+
+    /**
+     * Hash of collected files, independent of file order
+     */
+    public hashContents(files: { file: string; content: string }[]): string {
+        const hash = crypto.createHash('sha256');
+        for (const { file, content } of [...files].sort((a, b) => a.file.localeCompare(b.file))) {
+            hash.update(file).update('\0').update(content).update('\0');
+        }
+        return hash.digest('hex');
+    }
+
+    public get(itemPath: string, contentHash: string, engine: string, promptVersion: string): AuditResult | undefined {
+        const entry = this.load()[itemPath];
+        if (!entry || entry.contentHash !== contentHash || entry.promptVersion !== promptVersion || entry.engine !== engine) {
+            return undefined;
+        }
+        return { ...entry.result, auditedAt: new Date(entry.result.auditedAt) };
+    }
+
+    public set(itemPath: string, contentHash: string, engine: string, result: AuditResult): void {
+        const entries = this.load();
+        entries[itemPath] = {
+            contentHash,
+            promptVersion: result.promptVersion || String(AUDIT_PROMPT_VERSION),
+            engine,
+            result: { ...result, cached: undefined, auditedAt: result.auditedAt.toISOString() }
+        };
+        this.save();
+        this._onDidUpdate.fire(itemPath);
+    }
+
+    /**
+     * Last stored result of an item, whether or not its content changed since
+     */
+    public getResult(itemPath: string): AuditResult | undefined {
+        const entry = this.load()[itemPath];
+        return entry ? { ...entry.result, auditedAt: new Date(entry.result.auditedAt) } : undefined;
+    }
+
+    /**
+     * Every stored result
+     */
+    public getResults(): AuditResult[] {
+        return Object.values(this.load()).map(entry => ({ ...entry.result, auditedAt: new Date(entry.result.auditedAt) }));
+    }
+
+    /**
+     * Carry a result over when audited content moves, e.g. from quarantine
+     * into place
+     */
+    public rename(fromPath: string, toPath: string): void {
+        const entries = this.load();
+        if (entries[fromPath]) {
+            entries[toPath] = entries[fromPath];
+            entries[toPath].result.itemPath = toPath;
+            delete entries[fromPath];
+            this.save();
+            this._onDidUpdate.fire(toPath);
+        }
+    }
+
+    public delete(itemPath: string): void {
+        const entries = this.load();
+        if (entries[itemPath]) {
+            delete entries[itemPath];
+            this.save();
+        }
+    }
+
+    /**
+     * Last audit of an item, without accepted findings, and whether its
+     * files changed since
+     */
+    public async getState(itemPath: string): Promise<AuditState | undefined> {
+        const entry = this.load()[itemPath];
+        if (!entry || !fs.existsSync(itemPath)) {
+            return undefined;
+        }
+        const contentHash = await this.getCurrentHash(itemPath);
+        const result = { ...entry.result, auditedAt: new Date(entry.result.auditedAt) };
+        return {
+            status: getAuditBaseline().apply(result).status,
+            auditedAt: new Date(entry.result.auditedAt),
+            changed: contentHash !== entry.contentHash
+        };
+    }
+
+    /**
+     * Hash of an item's current content. Tree refreshes ask for every item,
+     * so files are only read again when their size or mtime changed.
+     */
+    private async getCurrentHash(itemPath: string): Promise<string> {
+        const signature = statSignature(itemPath);
+        const known = this.currentHashes.get(itemPath);
+        if (known && known.signature === signature) {
+            return known.contentHash;
+        }
+        const contentHash = this.hashContents(await collectFileContents(itemPath));
+        this.currentHashes.set(itemPath, { signature, contentHash });
+        return contentHash;
+    }
+
+    private load(): Record<string, AuditCacheEntry> {
+        if (!this.entries) {
+            try {
+                const data = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+                this.entries = data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+            } catch {
+                this.entries = {};
+            }
+        }
+        return this.entries!;
+    }
+
+    private save(): void {
+        writeJsonAtomic(this.cachePath, this.entries);
+    }
+}
+
+/**
+ * Paths, sizes and mtimes of the files under a path. Stats only, no reads.
+ */
+function statSignature(targetPath: string): string {
+    const parts: string[] = [];
+    const visit = (currentPath: string) => {
+        let stats: fs.Stats;
+        try {
+            stats = fs.statSync(currentPath);
+        } catch {
+            return;  // broken link or deleted meanwhile
+        }
+        if (stats.isDirectory()) {
+            const dirName = path.basename(currentPath);
+            if (currentPath !== targetPath && (dirName === '.git' || dirName === 'node_modules')) {
+                return;
+            }
+            for (const entry of fs.readdirSync(currentPath).sort()) {
+                visit(path.join(currentPath, entry));
+            }
+        } else {
+            parts.push(`${currentPath}:${stats.size}:${stats.mtimeMs}`);
+        }
+    };
+    visit(targetPath);
+    return parts.join('\n');
+}
+
+// Singleton instance
+let instance: AuditCache | null = null;
+
+export function getAuditCache(): AuditCache {
+    if (!instance) {
+        instance = new AuditCache();
+    }
+    return instance;
+}
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AuditResult, SecurityIssue, getIssueFilePath, getSeverityThreshold, issuesAtOrAbove } from './SecurityAuditor';
+import { getAuditCache } from './AuditCache';
+import { getAuditBaseline } from './AuditBaseline';
+import { getQuarantinePath } from './SmartInstaller';
+
+const DIAGNOSTIC_SEVERITY: Record<SecurityIssue['severity'], vscode.DiagnosticSeverity> = {
+    critical: vscode.DiagnosticSeverity.Error,
+    high: vscode.DiagnosticSeverity.Error,
+    medium: vscode.DiagnosticSeverity.Warning,
+    low: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * A published finding, kept so code actions can find the item it belongs to
+ */
+interface PublishedFinding {
+    diagnostic: vscode.Diagnostic;
+    itemPath: string;
+    issue: SecurityIssue;
+}
+
+/**
+ * Publishes audit findings to the Problems panel and offers code actions to
+ * open the audit, suppress a finding or audit the item again
+ */
+export class AuditDiagnostics implements vscode.Disposable, vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnostics: vscode.DiagnosticCollection;
+    private disposables: vscode.Disposable[] = [];
+    private results = new Map<string, AuditResult>();
+    // Findings by file path, as published
+    private findings = new Map<string, PublishedFinding[]>();
+
+    constructor() {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('claude-audit');
+
+        // Cached results follow content that moves from quarantine into place
+        getAuditCache().onDidUpdate(itemPath => {
+            const result = getAuditCache().getResult(itemPath);
+            if (result) {
+                this.publish(result);
+            }
+        }, null, this.disposables);
+
+        getAuditBaseline().onDidChange(() => this.refresh(), null, this.disposables);
+
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('claudeCodeAssist.auditSeverityThreshold')) {
+                this.refresh();
+            }
+        }, null, this.disposables);
+    }
+
+    /**
+     * Show the stored results of every item that still exists
+     */
+    loadCachedResults(): void {
+        for (const result of getAuditCache().getResults()) {
+            if (fs.existsSync(result.itemPath)) {
+                this.publish(result);
+            }
+        }
+    }
+
+    /**
+     * Replace the diagnostics of an item with the findings of its latest audit
+     */
+    publish(result: AuditResult): void {
+        if (this.isTemporaryPath(result.itemPath)) {
+            return;
+        }
+        this.results.set(result.itemPath, result);
+        this.refresh();
+    }
+
+    getResult(itemPath: string): AuditResult | undefined {
+        return this.results.get(itemPath);
+    }
+
+    /**
+     * Rebuild every diagnostic from the stored results
+     */
+    refresh(): void {
+        const threshold = getSeverityThreshold();
+        const baseline = getAuditBaseline();
+        const findings = new Map<string, PublishedFinding[]>();
+
+        for (const result of this.results.values()) {
+            for (const issue of issuesAtOrAbove(result.issues, threshold)) {
+                if (issue.type === 'audit_error') {
+                    continue;
+                }
+                const filePath = this.resolveFile(result, issue);
+                if (!filePath) {
+                    continue;
+                }
+                if (baseline.isAccepted(result, issue)) {
+                    continue;
+                }
+                const list = findings.get(filePath) || [];
+                list.push({ diagnostic: this.createDiagnostic(issue), itemPath: result.itemPath, issue });
+                findings.set(filePath, list);
+            }
+        }
+
+        this.findings = findings;
+        this.diagnostics.clear();
+        for (const [filePath, list] of findings) {
+            this.diagnostics.set(vscode.Uri.file(filePath), list.map(finding => finding.diagnostic));
+        }
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const published = this.findings.get(document.uri.fsPath);
+        if (!published) {
+            return [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        const reaudited = new Set<string>();
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'Claude Code Assist Audit') {
+                continue;
+            }
+            // Diagnostics arrive as copies, so match them by position and message
+            const finding = published.find(f =>
+                f.diagnostic.range.start.line === diagnostic.range.start.line && f.diagnostic.message === diagnostic.message);
+            if (!finding) {
+                continue;
+            }
+
+            const details = new vscode.CodeAction('Open audit details', vscode.CodeActionKind.QuickFix);
+            details.diagnostics = [diagnostic];
+            details.command = { title: details.title, command: 'claude-code-assist.showAuditDetails', arguments: [finding.itemPath] };
+            actions.push(details);
+
+            if (getAuditBaseline().canAccept(finding.itemPath)) {
+                const suppress = new vscode.CodeAction('Suppress this finding', vscode.CodeActionKind.QuickFix);
+                suppress.diagnostics = [diagnostic];
+                suppress.command = { title: suppress.title, command: 'claude-code-assist.suppressAuditFinding', arguments: [finding.itemPath, finding.issue] };
+                actions.push(suppress);
+            }
+
+            if (!reaudited.has(finding.itemPath)) {
+                reaudited.add(finding.itemPath);
+                const reaudit = new vscode.CodeAction('Re-audit', vscode.CodeActionKind.QuickFix);
+                reaudit.diagnostics = [diagnostic];
+                reaudit.command = { title: reaudit.title, command: 'claude-code-assist.reauditItem', arguments: [finding.itemPath] };
+                actions.push(reaudit);
+            }
+        }
+        return actions;
+    }
+
+    private createDiagnostic(issue: SecurityIssue): vscode.Diagnostic {
+        const line = issue.line ? issue.line - 1 : 0;
+        const message = issue.suggestion ? `${issue.description}\n${issue.suggestion}` : issue.description;
+        // Precise findings underline their span, others the whole line
+        const range = issue.column
+            ? new vscode.Range(line, issue.column - 1, line, (issue.endColumn || issue.column + 1) - 1)
+            : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+        const diagnostic = new vscode.Diagnostic(
+            range,
+            message,
+            DIAGNOSTIC_SEVERITY[issue.severity]
+        );
+        diagnostic.source = 'Claude Code Assist Audit';
+        diagnostic.code = issue.type;
+        return diagnostic;
+    }
+
+    /**
+     * File a finding points at. Findings without a file land on the first line
+     * of single-file items and are dropped for folders.
+     */
+    private resolveFile(result: AuditResult, issue: SecurityIssue): string | undefined {
+        const filePath = getIssueFilePath(result, issue) || result.itemPath;
+        try {
+            return fs.statSync(filePath).isFile() ? filePath : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Audits of downloads before they are moved into place
+    private isTemporaryPath(itemPath: string): boolean {
+        return [getQuarantinePath(), os.tmpdir()].some(root => {
+            const relative = path.relative(root, itemPath);
+            return !relative.startsWith('..') && !path.isAbsolute(relative);
+        });
+    }
+
+    dispose(): void {
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+        this.diagnostics.dispose();
+    }
+}
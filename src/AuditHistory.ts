@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AuditResult, SecurityIssue } from './SecurityAuditor';
+import { fingerprintIssue } from './AuditBaseline';
+import { writeJsonAtomic } from './Transaction';
+
+// Older runs of an item are dropped beyond this
+const MAX_RUNS_PER_ITEM = 20;
+
+/**
+ * A finding as recorded in the history. The fingerprint is taken when the run
+ * is recorded, so findings can be matched across runs after the files change.
+ */
+export interface HistoryIssue extends SecurityIssue {
+    fingerprint: string;
+}
+
+export interface AuditRun {
+    auditedAt: string;
+    status: AuditResult['status'];
+    promptVersion?: string;
+    issues: HistoryIssue[];
+}
+
+/**
+ * Findings of a later run compared with an earlier one
+ */
+export interface AuditDiff {
+    added: HistoryIssue[];
+    resolved: HistoryIssue[];
+    unchanged: HistoryIssue[];
+}
+
+/**
+ * Keeps the audit runs of every item in ~/.claude/.assist-audit-history.json
+ */
+export class AuditHistory {
+    private historyPath: string;
+    private runs: Record<string, AuditRun[]> | null = null;
+
+    constructor() {
+        this.historyPath = path.join(os.homedir(), '.claude', '.assist-audit-history.json');
+    }
+
+    /**
+     * Add a completed audit. Cached results repeat an earlier run and are skipped.
+     */
+    public record(result: AuditResult): void {
+        if (result.cached) {
+            return;
+        }
+        const runs = this.load();
+        const itemRuns = runs[result.itemPath] || [];
+        itemRuns.unshift({
+            auditedAt: result.auditedAt.toISOString(),
+            status: result.status,
+            promptVersion: result.promptVersion,
+            issues: result.issues.map(issue => ({ ...issue, fingerprint: fingerprintIssue(result, issue) }))
+        });
+        runs[result.itemPath] = itemRuns.slice(0, MAX_RUNS_PER_ITEM);
+        this.save();
+    }
+
+    /**
+     * Runs of an item, newest first
+     */
+    public getRuns(itemPath: string): AuditRun[] {
+        return this.load()[itemPath] || [];
+    }
+
+    /**
+     * Follow audited content that moves, e.g. from quarantine into place. The
+     * moved runs are added in front of the history already at the destination.
+     */
+    public rename(fromPath: string, toPath: string): void {
+        const runs = this.load();
+        if (!runs[fromPath]) {
+            return;
+        }
+        runs[toPath] = [...runs[fromPath], ...(runs[toPath] || [])]
+            .sort((a, b) => b.auditedAt.localeCompare(a.auditedAt))
+            .slice(0, MAX_RUNS_PER_ITEM);
+        delete runs[fromPath];
+        this.save();
+    }
+
+    public delete(itemPath: string): void {
+        const runs = this.load();
+        if (runs[itemPath]) {
+            delete runs[itemPath];
+            this.save();
+        }
+    }
+
+    /**
+     * Match the findings of two runs by type, file and fingerprint
+     */
+    public diff(base: AuditRun, head: AuditRun): AuditDiff {
+        const key = (issue: HistoryIssue) => `${issue.type}|${issue.file || ''}|${issue.fingerprint}`;
+        // Failed audits are not findings
+        const baseIssues = base.issues.filter(issue => issue.type !== 'audit_error');
+        const headIssues = head.issues.filter(issue => issue.type !== 'audit_error');
+        const baseKeys = new Set(baseIssues.map(key));
+        const headKeys = new Set(headIssues.map(key));
+
+        return {
+            added: headIssues.filter(issue => !baseKeys.has(key(issue))),
+            resolved: baseIssues.filter(issue => !headKeys.has(key(issue))),
+            unchanged: headIssues.filter(issue => baseKeys.has(key(issue)))
+        };
+    }
+
+    private load(): Record<string, AuditRun[]> {
+        if (!this.runs) {
+            try {
+                const data = JSON.parse(fs.readFileSync(this.historyPath, 'utf-8'));
+                this.runs = data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+            } catch {
+                this.runs = {};
+            }
+        }
+        return this.runs!;
+    }
+
+    private save(): void {
+        writeJsonAtomic(this.historyPath, this.runs);
+    }
+}
+
+// Singleton instance
+let instance: AuditHistory | null = null;
+
+export function getAuditHistory(): AuditHistory {
+    if (!instance) {
+        instance = new AuditHistory();
+    }
+    return instance;
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { USER_LOCATION, getScopeRoot } from './ClaudeAsset';
+import { AUDIT_PROMPT_VERSION, SecurityIssue } from './SecurityAuditor';
+import { getProjectRoots } from './WorkspacePaths';
+
+export const PROMPT_FILE = 'assist-audit-prompt.json';
+
+/**
+ * A risk the audit prompt asks about. type is the issue type findings of
+ * this category are reported with.
+ */
+export interface AuditCategory {
+    type: string;
+    name: string;
+    severity: SecurityIssue['severity'];
+    description: string;
+}
+
+/**
+ * Layout of .claude/assist-audit-prompt.json. Every field is optional.
+ */
+interface AuditPromptFile {
+    version?: string;             // label recorded in the prompt version of results
+    categories?: AuditCategory[]; // added to the built-in categories
+    replaceCategories?: boolean;  // use only the listed categories
+    template?: string;            // replaces the prompt text before the response format
+    templateFile?: string;        // same, read from a file relative to the .claude directory
+}
+
+/**
+ * The prompt an audit uses and the version results record for it
+ */
+export interface AuditPromptConfig {
+    categories: AuditCategory[];
+    template: string;
+    promptVersion: string;
+    source?: string;  // the file the customization came from
+}
+
+export const DEFAULT_AUDIT_CATEGORIES: AuditCategory[] = [
+    { type: 'api_key_exposure', name: 'API Key Exposure', severity: 'critical', description: 'Hardcoded API keys, tokens, passwords, or secrets' },
+    { type: 'data_exfiltration', name: 'Data Exfiltration', severity: 'critical', description: 'Code that sends user data, environment variables, or file contents to external servers' },
+    { type: 'sensitive_file_access', name: 'Sensitive File Access', severity: 'high', description: 'Reading ~/.ssh, ~/.aws, ~/.claude, or other sensitive directories' },
+    { type: 'shell_injection', name: 'Shell Injection', severity: 'high', description: 'Unsafe command execution or shell injection vulnerabilities' },
+    { type: 'suspicious_url', name: 'Suspicious URLs', severity: 'high', description: 'Requests to unknown or suspicious external services' },
+    { type: 'env_var_access', name: 'Environment Variable Access', severity: 'medium', description: 'Accessing sensitive env vars like API keys, credentials' },
+    { type: 'credential_harvesting', name: 'Credential Harvesting', severity: 'critical', description: 'Patterns that collect and transmit credentials' },
+    { type: 'obfuscated_code', name: 'Obfuscated Code', severity: 'high', description: 'Base64 encoded commands, dynamic code execution, or obfuscated logic' }
+];
+
+/**
+ * Placeholders: {{itemType}}, {{itemName}}, {{categories}} and {{files}}
+ */
+export const DEFAULT_PROMPT_TEMPLATE = `You are a security auditor for Claude Code extensions. Analyze the following {{itemType}} named "{{itemName}}" for security risks.
+
+Check for these security issues:
+{{categories}}
+
+FILES TO AUDIT:
+{{files}}`;
+
+// Always appended so responses keep the schema the parser expects
+const RESPONSE_FORMAT = `Respond with a JSON object in this exact format:
+{
+  "status": "safe" | "warning" | "danger",
+  "issues": [
+    {
+      "severity": "low" | "medium" | "high" | "critical",
+      "type": {{issueTypes}},
+      "description": "Description of the issue",
+      "file": "filename where issue was found",
+      "line": 123,
+      "suggestion": "How to fix or mitigate"
+    }
+  ],
+  "summary": "Brief overall assessment"
+}
+
+If no issues found, return: {"status": "safe", "issues": [], "summary": "No security issues detected"}
+
+IMPORTANT: Only output the JSON object, nothing else.`;
+
+const SEVERITIES: SecurityIssue['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * The prompt file that applies to an item: the one of the project whose
+ * .claude directory holds the item, else the user's. A cloned repository must
+ * not weaken audits of user assets or of downloads, and project files are
+ * ignored altogether in untrusted workspaces.
+ */
+export function findPromptFile(itemPath: string): string | undefined {
+    const owner = vscode.workspace.isTrusted
+        ? getProjectRoots().find(root => isInside(root.claudePath, itemPath))
+        : undefined;
+    const candidates = [
+        ...(owner ? [owner.claudePath] : []),
+        getScopeRoot(USER_LOCATION)
+    ].map(dir => path.join(dir, PROMPT_FILE));
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+function isInside(dirPath: string, filePath: string): boolean {
+    const relative = path.relative(dirPath, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * The prompt for auditing an item. A broken prompt file fails the audit
+ * rather than silently falling back to the defaults.
+ */
+export function getAuditPromptConfig(itemPath: string): AuditPromptConfig {
+    const filePath = findPromptFile(itemPath);
+    if (!filePath) {
+        return { categories: DEFAULT_AUDIT_CATEGORIES, template: DEFAULT_PROMPT_TEMPLATE, promptVersion: String(AUDIT_PROMPT_VERSION) };
+    }
+
+    let custom: AuditPromptFile;
+    try {
+        custom = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot parse audit prompt file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (typeof custom !== 'object' || custom === null || Array.isArray(custom)) {
+        throw new Error(`Audit prompt file ${filePath} must contain a JSON object`);
+    }
+    if (custom.version !== undefined && (typeof custom.version !== 'string' || !/^[A-Za-z0-9._-]{1,40}$/.test(custom.version))) {
+        throw new Error(`"version" in ${filePath} must be a short label of letters, digits, ".", "_" or "-"`);
+    }
+    if (custom.categories !== undefined && !Array.isArray(custom.categories)) {
+        throw new Error(`"categories" in ${filePath} must be a list`);
+    }
+    if (custom.replaceCategories !== undefined && typeof custom.replaceCategories !== 'boolean') {
+        throw new Error(`"replaceCategories" in ${filePath} must be true or false`);
+    }
+    for (const key of ['template', 'templateFile'] as const) {
+        if (custom[key] !== undefined && typeof custom[key] !== 'string') {
+            throw new Error(`"${key}" in ${filePath} must be a string`);
+        }
+    }
+
+    const extra = (custom.categories || []).map(category => validateCategory(category, filePath));
+    const categories = custom.replaceCategories
+        ? extra
+        : [...DEFAULT_AUDIT_CATEGORIES.filter(category => !extra.some(e => e.type === category.type)), ...extra];
+    if (categories.length === 0) {
+        throw new Error(`Audit prompt file ${filePath} leaves no categories to check`);
+    }
+
+    let template = custom.template ?? DEFAULT_PROMPT_TEMPLATE;
+    if (custom.templateFile) {
+        const claudeDir = path.dirname(filePath);
+        const templatePath = path.resolve(claudeDir, custom.templateFile);
+        try {
+            // Links could point out of the directory as well
+            if (!isInside(fs.realpathSync(claudeDir), fs.realpathSync(templatePath))) {
+                throw new Error('the template must be inside the .claude directory');
+            }
+            template = fs.readFileSync(templatePath, 'utf-8');
+        } catch (error) {
+            throw new Error(`Cannot read audit prompt template ${templatePath}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    if (!template.includes('{{files}}')) {
+        throw new Error(`Audit prompt template in ${filePath} must contain {{files}}`);
+    }
+
+    // Results from different prompts stay distinguishable and are not reused from the cache
+    const hash = crypto.createHash('sha256').update(JSON.stringify({ categories, template })).digest('hex').slice(0, 8);
+    return {
+        categories,
+        template,
+        promptVersion: `${AUDIT_PROMPT_VERSION}+${custom.version || 'custom'}.${hash}`,
+        source: filePath
+    };
+}
+
+function validateCategory(category: AuditCategory, filePath: string): AuditCategory {
+    if (!category || typeof category.type !== 'string' || !/^[a-z][a-z0-9_]*$/.test(category.type)) {
+        throw new Error(`Audit category in ${filePath} needs a snake_case "type"`);
+    }
+    if (!SEVERITIES.includes(category.severity)) {
+        throw new Error(`Audit category "${category.type}" in ${filePath} has an invalid severity`);
+    }
+    return {
+        type: category.type,
+        name: category.name || category.type.replace(/_/g, ' '),
+        severity: category.severity,
+        description: category.description || ''
+    };
+}
+
+/**
+ * Fill the template and append the response format
+ */
+export function buildAuditPrompt(
+    config: AuditPromptConfig,
+    files: { file: string; content: string }[],
+    itemName: string,
+    itemType: string
+): string {
+    const filesContent = files.map(f =>
+        `=== File: ${f.file} ===\n${f.content}\n`
+    ).join('\n');
+    const categories = config.categories.map((category, index) =>
+        `${index + 1}. **${category.name}** (${category.severity}): ${category.description}`
+    ).join('\n');
+    const issueTypes = [...config.categories.map(category => category.type), 'other'].map(type => `"${type}"`).join(' | ');
+
+    // One pass so placeholders inside file contents are left alone
+    const values: Record<string, string> = { itemType, itemName, categories, files: filesContent };
+    const prompt = config.template.replace(/\{\{(itemType|itemName|categories|files)\}\}/g, (_, key: string) => values[key]);
+
+    return `${prompt}\n\n${RESPONSE_FORMAT.replace('{{issueTypes}}', issueTypes)}`;
+}
@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditResult, SecurityIssue, getIssueFilePath } from './SecurityAuditor';
+
+export type AuditReportFormat = 'sarif' | 'json' | 'markdown';
+
+const TOOL_NAME = 'Claude Code Assist Security Audit';
+const TOOL_URI = 'https://github.com/phoxiao/claudeCodeAssist';
+
+// Bump when the JSON report layout changes
+const JSON_REPORT_VERSION = 1;
+
+/**
+ * Layout of the JSON report
+ */
+export interface AuditJsonReport {
+    schemaVersion: number;
+    generatedAt: string;
+    tool: { name: string; version: string };
+    summary: {
+        items: number;
+        status: Record<AuditResult['status'], number>;
+        severity: Record<SecurityIssue['severity'], number>;
+    };
+    results: {
+        itemName: string;
+        itemType: string;
+        itemPath: string;
+        status: AuditResult['status'];
+        auditedAt: string;
+        promptVersion?: string;
+        issues: (SecurityIssue & { path?: string })[];
+    }[];
+}
+
+const SEVERITY_ORDER: SecurityIssue['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+const SARIF_LEVELS: Record<SecurityIssue['severity'], string> = {
+    critical: 'error',
+    high: 'error',
+    medium: 'warning',
+    low: 'note'
+};
+
+// Scores code scanning tools use to bucket security findings
+const SECURITY_SEVERITY: Record<SecurityIssue['severity'], string> = {
+    critical: '9.5',
+    high: '8.0',
+    medium: '5.5',
+    low: '2.0'
+};
+
+export function formatAuditReport(results: AuditResult[], format: AuditReportFormat, toolVersion: string): string {
+    switch (format) {
+        case 'sarif':
+            return JSON.stringify(toSarif(results, toolVersion), null, 2);
+        case 'json':
+            return JSON.stringify(toJsonReport(results, toolVersion), null, 2);
+        case 'markdown':
+            return toMarkdown(results);
+    }
+}
+
+/**
+ * SARIF 2.1.0 log with one rule per finding type. Failed audits become tool
+ * execution notifications rather than results.
+ */
+function toSarif(results: AuditResult[], toolVersion: string): object {
+    const findings = results.flatMap(result => result.issues
+        .filter(issue => issue.type !== 'audit_error')
+        .map(issue => ({ result, issue })));
+
+    // A rule's severity is the highest seen for its type
+    const rules = new Map<string, SecurityIssue['severity']>();
+    for (const { issue } of findings) {
+        const current = rules.get(issue.type);
+        if (!current || SEVERITY_ORDER.indexOf(issue.severity) < SEVERITY_ORDER.indexOf(current)) {
+            rules.set(issue.type, issue.severity);
+        }
+    }
+
+    const failures = results.flatMap(result => result.issues
+        .filter(issue => issue.type === 'audit_error')
+        .map(issue => ({ result, issue })));
+
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    version: toolVersion,
+                    informationUri: TOOL_URI,
+                    rules: Array.from(rules, ([id, severity]) => ({
+                        id,
+                        name: id,
+                        shortDescription: { text: id.replace(/_/g, ' ') },
+                        defaultConfiguration: { level: SARIF_LEVELS[severity] },
+                        properties: { 'security-severity': SECURITY_SEVERITY[severity], tags: ['security'] }
+                    }))
+                }
+            },
+            invocations: [{
+                executionSuccessful: failures.length === 0,
+                toolExecutionNotifications: failures.map(({ result, issue }) => ({
+                    level: 'error',
+                    message: { text: `${result.itemName}: ${issue.description}` }
+                }))
+            }],
+            results: findings.map(({ result, issue }) => {
+                const filePath = getIssueFilePath(result, issue) || result.itemPath;
+                return {
+                    ruleId: issue.type,
+                    level: SARIF_LEVELS[issue.severity],
+                    message: { text: issue.suggestion ? `${issue.description}\n\nSuggestion: ${issue.suggestion}` : issue.description },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: { uri: vscode.Uri.file(filePath).toString() },
+                            ...(issue.line ? {
+                                region: {
+                                    startLine: issue.line,
+                                    ...(issue.column ? { startColumn: issue.column, endColumn: issue.endColumn || issue.column + 1 } : {})
+                                }
+                            } : {})
+                        }
+                    }],
+                    properties: {
+                        severity: issue.severity,
+                        itemName: result.itemName,
+                        itemType: result.itemType,
+                        promptVersion: result.promptVersion
+                    }
+                };
+            })
+        }]
+    };
+}
+
+function toJsonReport(results: AuditResult[], toolVersion: string): AuditJsonReport {
+    const status = { safe: 0, warning: 0, danger: 0, error: 0 };
+    const severity = { critical: 0, high: 0, medium: 0, low: 0 };
+    for (const result of results) {
+        status[result.status]++;
+        for (const issue of result.issues) {
+            severity[issue.severity]++;
+        }
+    }
+
+    return {
+        schemaVersion: JSON_REPORT_VERSION,
+        generatedAt: new Date().toISOString(),
+        tool: { name: TOOL_NAME, version: toolVersion },
+        summary: { items: results.length, status, severity },
+        results: results.map(result => ({
+            itemName: result.itemName,
+            itemType: result.itemType,
+            itemPath: result.itemPath,
+            status: result.status,
+            auditedAt: result.auditedAt.toISOString(),
+            promptVersion: result.promptVersion,
+            issues: result.issues.map(issue => ({ ...issue, path: getIssueFilePath(result, issue) }))
+        }))
+    };
+}
+
+/**
+ * Summary table followed by the findings of every item that has any
+ */
+function toMarkdown(results: AuditResult[]): string {
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const count = (status: AuditResult['status']) => results.filter(r => r.status === status).length;
+
+    const lines: string[] = [
+        '## Security Audit Report',
+        '',
+        `${results.length} item${results.length !== 1 ? 's' : ''} audited on ${new Date().toLocaleString()}: ` +
+        `**${count('danger')}** danger, **${count('warning')}** warning, **${count('safe')}** safe, **${count('error')}** error.`,
+        '',
+        '| Item | Type | Status | Findings |',
+        '| --- | --- | --- | --- |',
+        ...results.map(r => `| ${escape(r.itemName)} | ${r.itemType} | ${r.status} | ${r.issues.length} |`)
+    ];
+
+    for (const result of results.filter(r => r.issues.length > 0)) {
+        lines.push('', `### ${escape(result.itemName)} (${result.itemType}, ${result.status})`, '');
+        const issues = [...result.issues].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+        for (const issue of issues) {
+            const location = issue.file ? ` \`${issue.file}${issue.line ? `:${issue.line}` : ''}\`` : '';
+            lines.push(`- **${issue.severity}** \`${issue.type}\`${location}: ${escape(issue.description)}`);
+            if (issue.suggestion) {
+                lines.push(`  - Suggestion: ${escape(issue.suggestion)}`);
+            }
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Ask for a format and file, then write the report
+ */
+export async function exportAuditReport(results: AuditResult[], toolVersion: string): Promise<void> {
+    if (results.length === 0) {
+        vscode.window.showInformationMessage('No audit results to export. Run a security audit first.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick([
+        { label: 'SARIF 2.1.0', description: 'For SARIF viewers and code scanning', format: 'sarif' as const, extension: 'sarif', filter: 'SARIF Files' },
+        { label: 'JSON', description: 'Machine-readable report', format: 'json' as const, extension: 'json', filter: 'JSON Files' },
+        { label: 'Markdown', description: 'Summary for pull requests', format: 'markdown' as const, extension: 'md', filter: 'Markdown Files' }
+    ], { placeHolder: 'Select a report format' });
+    if (!picked) {
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const fileName = `security-audit.${picked.extension}`;
+    const saveUri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(folder ? path.join(folder, fileName) : fileName),
+        filters: { [picked.filter]: [picked.extension] },
+        title: 'Export Security Audit Report'
+    });
+    if (!saveUri) {
+        return;
+    }
+
+    try {
+        fs.writeFileSync(saveUri.fsPath, formatAuditReport(results, picked.format, toolVersion), 'utf-8');
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to export audit report: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+        `Exported ${results.length} audit result${results.length !== 1 ? 's' : ''} to ${path.basename(saveUri.fsPath)}`,
+        'Open'
+    );
+    if (action === 'Open') {
+        vscode.window.showTextDocument(saveUri);
+    }
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { AuditResult, SecurityIssue } from './SecurityAuditor';
+import { AuditResult, SecurityIssue, getIssueFilePath, getSeverityThreshold, issuesAtOrAbove } from './SecurityAuditor';
+import { getAuditBaseline } from './AuditBaseline';
+import { HistoryIssue, getAuditHistory } from './AuditHistory';
 
 export class AuditResultPanel {
     public static currentPanel: AuditResultPanel | undefined;
@@ -9,6 +11,10 @@ export class AuditResultPanel {
     private readonly _extensionUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
     private _results: AuditResult[] = [];
+    // Staged install waiting for Install Anyway / Cancel
+    private _pendingInstall: { reason: string; resolve: (install: boolean) => void } | undefined;
+    // Earlier run each item is compared with, by item path; defaults to the previous run
+    private _baseRuns = new Map<string, string>();
 
     public static createOrShow(extensionUri: vscode.Uri, results?: AuditResult[]) {
         const column = vscode.window.activeTextEditor
@@ -37,6 +43,19 @@ export class AuditResultPanel {
         return AuditResultPanel.currentPanel;
     }
 
+    /**
+     * Show the audit of staged content with Install Anyway / Cancel. Resolves
+     * true only for Install Anyway; closing the panel or showing other
+     * results cancels.
+     */
+    public static confirmInstall(extensionUri: vscode.Uri, result: AuditResult, reason: string): Promise<boolean> {
+        const panel = AuditResultPanel.createOrShow(extensionUri, [result]);
+        return new Promise(resolve => {
+            panel._pendingInstall = { reason, resolve };
+            panel._update();
+        });
+    }
+
     private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, results: AuditResult[]) {
         this._panel = panel;
         this._extensionUri = extensionUri;
@@ -46,15 +65,19 @@ export class AuditResultPanel {
 
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
+        // Statuses are shown without accepted findings
+        getAuditBaseline().onDidChange(() => this._update(), null, this._disposables);
+
         this._panel.webview.onDidReceiveMessage(
             message => {
                 switch (message.command) {
                     case 'openFile':
                         if (message.path) {
                             const uri = vscode.Uri.file(message.path);
+                            const column = message.column ? message.column - 1 : 0;
                             vscode.window.showTextDocument(uri, {
                                 selection: message.line
-                                    ? new vscode.Range(message.line - 1, 0, message.line - 1, 0)
+                                    ? new vscode.Range(message.line - 1, column, message.line - 1, column)
                                     : undefined
                             });
                         }
@@ -62,6 +85,24 @@ export class AuditResultPanel {
                     case 'refresh':
                         this._update();
                         return;
+                    case 'export':
+                        vscode.commands.executeCommand('claude-code-assist.exportAuditReport');
+                        return;
+                    case 'acceptIssue':
+                    case 'unacceptIssue':
+                        this._updateBaseline(message.command === 'acceptIssue', message.result, message.issue);
+                        return;
+                    case 'compareRun':
+                        if (this._results[message.result]) {
+                            this._baseRuns.set(this._results[message.result].itemPath, message.run);
+                            this._update();
+                        }
+                        return;
+                    case 'installAnyway':
+                    case 'cancelInstall':
+                        this._settlePendingInstall(message.command === 'installAnyway');
+                        this._update();
+                        return;
                 }
             },
             null,
@@ -69,7 +110,12 @@ export class AuditResultPanel {
         );
     }
 
+    public getResults(): AuditResult[] {
+        return this._results;
+    }
+
     public updateResults(results: AuditResult[]) {
+        this._settlePendingInstall(false);
         this._results = results;
         this._update();
     }
@@ -83,8 +129,41 @@ export class AuditResultPanel {
         this._panel.webview.html = this._getHtmlForWebview();
     }
 
+    /**
+     * Accept a listed finding or take an accepted one back. Indexes refer to
+     * the issues as rendered.
+     */
+    private _updateBaseline(accept: boolean, resultIndex: number, issueIndex: number) {
+        const result = this._results[resultIndex];
+        if (!result) {
+            return;
+        }
+        const baseline = getAuditBaseline();
+        const baselined = baseline.apply(result);
+        const issue = (accept ? baselined.issues : baselined.acceptedIssues)[issueIndex];
+        if (!issue) {
+            return;
+        }
+        try {
+            if (accept) {
+                baseline.accept(result, [issue]);
+            } else {
+                baseline.unaccept(result, [issue]);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update audit baseline: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private _settlePendingInstall(install: boolean) {
+        const pending = this._pendingInstall;
+        this._pendingInstall = undefined;
+        pending?.resolve(install);
+    }
+
     public dispose() {
         AuditResultPanel.currentPanel = undefined;
+        this._settlePendingInstall(false);
         this._panel.dispose();
         while (this._disposables.length) {
             const disposable = this._disposables.pop();
@@ -96,7 +175,7 @@ export class AuditResultPanel {
 
     private _getHtmlForWebview(): string {
         const summary = this._getSummary();
-        const resultsHtml = this._results.map(r => this._renderResult(r)).join('');
+        const resultsHtml = this._results.map((r, index) => this._renderResult(r, index)).join('');
 
         return `<!DOCTYPE html>
 <html lang="en">
@@ -326,6 +405,94 @@ export class AuditResultPanel {
             font-weight: bold;
         }
 
+        .issue-item.accepted {
+            opacity: 0.55;
+        }
+
+        .issue-action {
+            margin-left: auto;
+            padding: 2px 10px;
+            font-size: 0.8em;
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .accepted-title {
+            font-size: 0.85em;
+            opacity: 0.7;
+            margin-top: 15px;
+            margin-bottom: 10px;
+        }
+
+        .history {
+            margin-top: 15px;
+            padding-top: 10px;
+            border-top: 1px dashed var(--border-color);
+        }
+
+        .history-title {
+            font-weight: bold;
+            margin-bottom: 8px;
+        }
+
+        .timeline-run {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            padding: 4px 8px;
+            border-radius: 4px;
+            font-size: 0.85em;
+        }
+
+        .timeline-run[data-run] {
+            cursor: pointer;
+        }
+
+        .timeline-run[data-run]:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .timeline-run.base {
+            background-color: var(--vscode-list-inactiveSelectionBackground);
+        }
+
+        .timeline-run .status-badge {
+            padding: 1px 6px;
+            font-size: 0.75em;
+        }
+
+        .timeline-tag {
+            margin-left: auto;
+            opacity: 0.7;
+        }
+
+        .diff-summary {
+            margin: 10px 0;
+            font-size: 0.9em;
+        }
+
+        .diff-added { color: var(--danger-color); font-weight: bold; }
+        .diff-resolved { color: var(--safe-color); font-weight: bold; }
+
+        .diff-issue {
+            font-size: 0.85em;
+            padding: 4px 8px;
+            border-left: 3px solid var(--border-color);
+            margin-bottom: 4px;
+        }
+
+        .diff-issue.added { border-left-color: var(--danger-color); }
+        .diff-issue.resolved { border-left-color: var(--safe-color); text-decoration: line-through; opacity: 0.8; }
+        .diff-issue.unchanged { opacity: 0.7; }
+
+        .history details {
+            font-size: 0.85em;
+            margin-top: 6px;
+        }
+
         .no-issues {
             text-align: center;
             padding: 20px;
@@ -338,6 +505,44 @@ export class AuditResultPanel {
             margin-top: 10px;
         }
 
+        .export-btn {
+            margin-left: auto;
+            padding: 4px 12px;
+            font-size: 0.6em;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .install-banner {
+            padding: 15px;
+            margin-bottom: 20px;
+            border-radius: 8px;
+            border: 1px solid var(--vscode-inputValidation-warningBorder, var(--warning-color));
+            background-color: var(--vscode-inputValidation-warningBackground, var(--card-bg));
+        }
+
+        .install-banner p {
+            margin: 0 0 10px 0;
+        }
+
+        .install-banner button {
+            padding: 6px 14px;
+            margin-right: 8px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        .install-banner button.secondary {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
         .empty-state {
             text-align: center;
             padding: 60px 20px;
@@ -350,7 +555,18 @@ export class AuditResultPanel {
     </style>
 </head>
 <body>
-    <h1>Security Audit Results</h1>
+    <h1>
+        Security Audit Results
+        ${this._results.length > 0 ? '<button id="export-report" class="export-btn" title="Export as SARIF, JSON or Markdown">Export Report</button>' : ''}
+    </h1>
+
+    ${this._pendingInstall ? `
+        <div class="install-banner">
+            <p><strong>Not installed yet.</strong> ${this._escapeHtml(this._pendingInstall.reason)}. The content is held in quarantine until you decide.</p>
+            <button id="install-anyway">Install Anyway</button>
+            <button id="cancel-install" class="secondary">Cancel</button>
+        </div>
+    ` : ''}
 
     ${this._results.length === 0 ? `
         <div class="empty-state">
@@ -391,15 +607,49 @@ export class AuditResultPanel {
             });
         });
 
+        document.getElementById('export-report')?.addEventListener('click', () => {
+            vscode.postMessage({ command: 'export' });
+        });
+        document.getElementById('install-anyway')?.addEventListener('click', () => {
+            vscode.postMessage({ command: 'installAnyway' });
+        });
+        document.getElementById('cancel-install')?.addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancelInstall' });
+        });
+
+        document.querySelectorAll('.issue-action').forEach(button => {
+            button.addEventListener('click', (e) => {
+                e.stopPropagation();
+                vscode.postMessage({
+                    command: button.dataset.action,
+                    result: parseInt(button.dataset.result),
+                    issue: parseInt(button.dataset.issue)
+                });
+            });
+        });
+
+        document.querySelectorAll('.timeline-run[data-run]').forEach(run => {
+            run.addEventListener('click', (e) => {
+                e.stopPropagation();
+                vscode.postMessage({
+                    command: 'compareRun',
+                    result: parseInt(run.dataset.result),
+                    run: run.dataset.run
+                });
+            });
+        });
+
         document.querySelectorAll('.issue-location').forEach(loc => {
             loc.addEventListener('click', (e) => {
                 e.stopPropagation();
                 const path = loc.dataset.path;
                 const line = parseInt(loc.dataset.line) || 0;
+                const column = parseInt(loc.dataset.column) || 0;
                 vscode.postMessage({
                     command: 'openFile',
                     path: path,
-                    line: line
+                    line: line,
+                    column: column
                 });
             });
         });
@@ -409,19 +659,39 @@ export class AuditResultPanel {
     }
 
     private _getSummary(): { safe: number; warning: number; danger: number; error: number } {
+        const statuses = this._results.map(r => getAuditBaseline().apply(r).status);
         return {
-            safe: this._results.filter(r => r.status === 'safe').length,
-            warning: this._results.filter(r => r.status === 'warning').length,
-            danger: this._results.filter(r => r.status === 'danger').length,
-            error: this._results.filter(r => r.status === 'error').length
+            safe: statuses.filter(status => status === 'safe').length,
+            warning: statuses.filter(status => status === 'warning').length,
+            danger: statuses.filter(status => status === 'danger').length,
+            error: statuses.filter(status => status === 'error').length
         };
     }
 
-    private _renderResult(result: AuditResult): string {
+    private _renderResult(audited: AuditResult, resultIndex: number): string {
+        // Accepted findings are listed greyed out and do not count towards the status
+        const result = getAuditBaseline().apply(audited);
+        const acceptedHtml = result.acceptedIssues.length > 0 ? `
+            <div class="accepted-title">${result.acceptedIssues.length} accepted finding${result.acceptedIssues.length !== 1 ? 's' : ''} (audit baseline)</div>
+            <div class="issues-list">
+                ${result.acceptedIssues.map((issue, index) => this._renderIssue(issue, audited, { action: 'unacceptIssue', resultIndex, issueIndex: index })).join('')}
+            </div>
+        ` : '';
+
+        // Findings below auditSeverityThreshold are counted but not listed
+        const threshold = getSeverityThreshold();
+        const shownIssues = issuesAtOrAbove(result.issues, threshold);
+        const hiddenCount = result.issues.length - shownIssues.length;
+        const hiddenHtml = hiddenCount > 0
+            ? `<div class="no-issues">${hiddenCount} finding${hiddenCount !== 1 ? 's' : ''} below ${threshold} severity hidden (auditSeverityThreshold)</div>`
+            : '';
         let issuesHtml: string;
 
-        if (result.issues.length > 0) {
-            issuesHtml = result.issues.map(issue => this._renderIssue(issue, result.itemPath)).join('');
+        if (shownIssues.length > 0) {
+            issuesHtml = shownIssues.map(issue =>
+                this._renderIssue(issue, audited, { action: 'acceptIssue', resultIndex, issueIndex: result.issues.indexOf(issue) })).join('') + hiddenHtml;
+        } else if (hiddenCount > 0) {
+            issuesHtml = hiddenHtml;
         } else if (result.status !== 'safe') {
             // status 是 warning/danger/error 但没有具体 issues 时，显示通用提示
             const severity = result.status === 'danger' ? 'high' : 'medium';
@@ -444,7 +714,7 @@ export class AuditResultPanel {
         }
 
         // 当有具体 issues 或 status 非 safe 时都认为有问题需要显示
-        const hasIssues = result.issues.length > 0 || result.status !== 'safe';
+        const hasIssues = shownIssues.length > 0 || (result.issues.length === 0 && result.status !== 'safe');
         const expandedClass = result.status !== 'safe' ? 'expanded' : '';
 
         return `
@@ -456,32 +726,110 @@ export class AuditResultPanel {
                         <div class="result-type">${result.itemType}</div>
                         <div class="result-path">${this._escapeHtml(result.itemPath)}</div>
                     </div>
-                    ${hasIssues ? `<span class="issue-count">${result.issues.length || 1} issue${(result.issues.length || 1) !== 1 ? 's' : ''}</span>` : ''}
+                    ${hasIssues ? `<span class="issue-count">${shownIssues.length || 1} issue${(shownIssues.length || 1) !== 1 ? 's' : ''}</span>` : ''}
                     <span class="expand-icon">▶</span>
                 </div>
                 <div class="result-details">
                     <div class="issues-list">
                         ${issuesHtml}
                     </div>
-                    <div class="timestamp">Audited: ${result.auditedAt.toLocaleString()}</div>
+                    ${acceptedHtml}
+                    ${this._renderHistory(audited, resultIndex)}
+                    <div class="timestamp">Audited: ${result.auditedAt.toLocaleString()}${result.cached ? ' (unchanged, cached result)' : ''}${result.promptVersion ? ` · prompt ${this._escapeHtml(result.promptVersion)}` : ''}</div>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Timeline of earlier audits of the item and the findings that are new,
+     * resolved or unchanged compared with the selected earlier run
+     */
+    private _renderHistory(result: AuditResult, resultIndex: number): string {
+        const history = getAuditHistory();
+        const runs = history.getRuns(result.itemPath);
+        const headAt = result.auditedAt.toISOString();
+        const head = runs.find(run => run.auditedAt === headAt);
+        const earlier = runs.filter(run => run.auditedAt < headAt);
+        if (!head || earlier.length === 0) {
+            return '';
+        }
+
+        const base = earlier.find(run => run.auditedAt === this._baseRuns.get(result.itemPath)) || earlier[0];
+        const diff = history.diff(base, head);
+
+        const timelineHtml = runs.map(run => {
+            const findings = run.issues.filter(issue => issue.type !== 'audit_error').length;
+            const tag = run === head ? 'shown' : run === base ? 'compared' : '';
+            // Only earlier runs can be picked for comparison
+            const pickable = earlier.includes(run) ? ` data-result="${resultIndex}" data-run="${run.auditedAt}"` : '';
+            return `
+                <div class="timeline-run${run === base ? ' base' : ''}"${pickable}>
+                    <span class="status-badge ${run.status}">${run.status}</span>
+                    <span>${new Date(run.auditedAt).toLocaleString()}</span>
+                    <span>${findings} finding${findings !== 1 ? 's' : ''}</span>
+                    ${run.promptVersion ? `<span class="issue-type">prompt ${this._escapeHtml(run.promptVersion)}</span>` : ''}
+                    ${tag ? `<span class="timeline-tag">${tag}</span>` : ''}
                 </div>
+            `;
+        }).join('');
+
+        const renderDiffIssue = (issue: HistoryIssue, kind: string) => `
+            <div class="diff-issue ${kind}">
+                <span class="severity-badge ${issue.severity}">${issue.severity}</span>
+                <span class="issue-type">${this._escapeHtml(issue.type)}</span>
+                ${this._escapeHtml(issue.description)}
+                ${issue.file ? `<span class="issue-type">(${this._escapeHtml(issue.file)}${issue.line ? `:${issue.line}` : ''})</span>` : ''}
+            </div>
+        `;
+
+        return `
+            <div class="history">
+                <div class="history-title">History</div>
+                ${timelineHtml}
+                <div class="diff-summary">
+                    Since the audit of ${new Date(base.auditedAt).toLocaleString()}:
+                    <span class="diff-added">${diff.added.length} new</span>,
+                    <span class="diff-resolved">${diff.resolved.length} resolved</span>,
+                    ${diff.unchanged.length} unchanged
+                </div>
+                ${diff.added.map(issue => renderDiffIssue(issue, 'added')).join('')}
+                ${diff.resolved.map(issue => renderDiffIssue(issue, 'resolved')).join('')}
+                ${diff.unchanged.length > 0 ? `
+                    <details>
+                        <summary>${diff.unchanged.length} unchanged finding${diff.unchanged.length !== 1 ? 's' : ''}</summary>
+                        ${diff.unchanged.map(issue => renderDiffIssue(issue, 'unchanged')).join('')}
+                    </details>
+                ` : ''}
             </div>
         `;
     }
 
-    private _renderIssue(issue: SecurityIssue, basePath: string): string {
-        const filePath = issue.file ? `${basePath}/${issue.file}` : basePath;
+    private _renderIssue(
+        issue: SecurityIssue,
+        result: AuditResult,
+        baseline: { action: 'acceptIssue' | 'unacceptIssue'; resultIndex: number; issueIndex: number }
+    ): string {
+        const filePath = getIssueFilePath(result, issue) || result.itemPath;
+        const accepted = baseline.action === 'unacceptIssue';
+        // Failed audits are not findings that can be accepted, and project
+        // baselines are read only once the workspace is trusted
+        const canAccept = accepted || getAuditBaseline().canAccept(result.itemPath);
+        const actionHtml = issue.type === 'audit_error' || !canAccept ? '' : `
+            <button class="issue-action" data-action="${baseline.action}" data-result="${baseline.resultIndex}" data-issue="${baseline.issueIndex}"
+                title="${accepted ? 'Remove from the audit baseline' : 'Add to the audit baseline of this scope'}">${accepted ? 'Unaccept' : 'Accept'}</button>`;
 
         return `
-            <div class="issue-item ${issue.severity}">
+            <div class="issue-item ${issue.severity}${accepted ? ' accepted' : ''}">
                 <div class="issue-header">
                     <span class="severity-badge ${issue.severity}">${issue.severity}</span>
                     <span class="issue-type">${this._escapeHtml(issue.type)}</span>
+                    ${actionHtml}
                 </div>
                 <div class="issue-description">${this._escapeHtml(issue.description)}</div>
                 ${issue.file ? `
-                    <span class="issue-location" data-path="${this._escapeHtml(filePath)}" data-line="${issue.line || 0}">
-                        ${this._escapeHtml(issue.file)}${issue.line ? `:${issue.line}` : ''}
+                    <span class="issue-location" data-path="${this._escapeHtml(filePath)}" data-line="${issue.line || 0}" data-column="${issue.column || 0}">
+                        ${this._escapeHtml(issue.file)}${issue.line ? `:${issue.line}` : ''}${issue.line && issue.column ? `:${issue.column}` : ''}
                     </span>
                 ` : ''}
                 ${issue.suggestion ? `
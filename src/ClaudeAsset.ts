@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectRoot, getUserClaudePath, getProjectRoots, getProjectRoot, getProjectLabel } from './WorkspacePaths';
+import { Transaction } from './Transaction';
+
+export type AssetScope = 'user' | 'project';
+
+export type AssetKind = 'skill' | 'agent' | 'command' | 'outputStyle' | 'plugin' | 'marketplace' | 'hook' | 'mcpServer' | 'memory' | 'statusLine';
+
+// Kinds that can be installed from a URL and audited as files
+export type InstallableKind = 'skill' | 'agent' | 'command' | 'outputStyle' | 'plugin';
+
+export type TransferMode = 'move' | 'copy';
+
+/**
+ * Where an asset lives: the user scope or the project scope of one workspace folder
+ */
+export interface AssetLocation {
+    scope: AssetScope;
+    projectFolder?: string;  // workspace folder path for project scope
+}
+
+/**
+ * Common shape of everything the extension manages under a .claude directory
+ */
+export interface ClaudeAsset extends AssetLocation {
+    name: string;
+    path: string;
+}
+
+/**
+ * Declaration of an asset kind. Kinds with a container are plain files or
+ * folders under <scope root>/<container> and can be handled by FileAssetStore.
+ */
+export interface AssetKindDefinition {
+    kind: AssetKind;
+    label: string;           // singular, used in messages
+    pluralLabel: string;     // used for tree categories
+    container?: string;      // directory under the scope root
+    filePattern?: RegExp;    // standalone files accepted in the container
+}
+
+export const ASSET_KINDS: Record<AssetKind, AssetKindDefinition> = {
+    skill: { kind: 'skill', label: 'Skill', pluralLabel: 'Skills', container: 'skills', filePattern: /\.md$/i },
+    agent: { kind: 'agent', label: 'Agent', pluralLabel: 'Agents', container: 'agents', filePattern: /\.md$/i },
+    command: { kind: 'command', label: 'Command', pluralLabel: 'Commands', container: 'commands', filePattern: /\.md$/i },
+    outputStyle: { kind: 'outputStyle', label: 'Output Style', pluralLabel: 'Output Styles', container: 'output-styles', filePattern: /\.md$/i },
+    plugin: { kind: 'plugin', label: 'Plugin', pluralLabel: 'Plugins' },
+    marketplace: { kind: 'marketplace', label: 'Marketplace', pluralLabel: 'Marketplaces' },
+    hook: { kind: 'hook', label: 'Hook', pluralLabel: 'Hooks' },
+    mcpServer: { kind: 'mcpServer', label: 'MCP Server', pluralLabel: 'MCP Servers' },
+    memory: { kind: 'memory', label: 'Memory File', pluralLabel: 'Memory' },
+    statusLine: { kind: 'statusLine', label: 'Status Line', pluralLabel: 'Status Line' }
+};
+
+/**
+ * Managers that can copy or move their assets between scopes
+ */
+export interface AssetTransferer<T> {
+    transfer(item: T, target: AssetLocation, mode: TransferMode): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Location resolver
+// ---------------------------------------------------------------------------
+
+export const USER_LOCATION: AssetLocation = { scope: 'user' };
+
+export function projectLocation(root: ProjectRoot): AssetLocation {
+    return { scope: 'project', projectFolder: root.folder.uri.fsPath };
+}
+
+/**
+ * The user location followed by one project location per workspace folder
+ */
+export function getAssetLocations(): AssetLocation[] {
+    return [USER_LOCATION, ...getProjectRoots().map(projectLocation)];
+}
+
+/**
+ * Resolve the .claude directory of a location
+ */
+export function getScopeRoot(location: AssetLocation): string {
+    if (location.scope === 'user') {
+        return getUserClaudePath();
+    }
+    const root = getProjectRoot(location.projectFolder);
+    if (!root) {
+        throw new Error('No workspace folder open');
+    }
+    return root.claudePath;
+}
+
+/**
+ * Resolve the container directory of a file based kind in a location
+ */
+export function getAssetContainer(kind: AssetKind, location: AssetLocation): string {
+    const container = ASSET_KINDS[kind].container;
+    if (!container) {
+        throw new Error(`${ASSET_KINDS[kind].label} assets are not stored in a container directory`);
+    }
+    return path.join(getScopeRoot(location), container);
+}
+
+export function isSameLocation(a: AssetLocation, b: AssetLocation): boolean {
+    return a.scope === b.scope && (a.scope === 'user' || a.projectFolder === b.projectFolder);
+}
+
+/**
+ * Human readable location ("User", "Project" or "Project: api" in multi-root workspaces)
+ */
+export function describeLocation(location: AssetLocation): string {
+    return location.scope === 'user' ? 'User' : getProjectLabel(location.projectFolder);
+}
+
+// ---------------------------------------------------------------------------
+// Transfer operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Copy a file or directory tree
+ */
+export function copyPath(src: string, dest: string): void {
+    if (!fs.statSync(src).isDirectory()) {
+        fs.mkdirSync(path.dirname(dest), { recursive: true });
+        fs.copyFileSync(src, dest);
+        return;
+    }
+
+    fs.mkdirSync(dest, { recursive: true });
+    for (const childItemName of fs.readdirSync(src)) {
+        copyPath(path.join(src, childItemName), path.join(dest, childItemName));
+    }
+}
+
+/**
+ * Delete a file or directory tree; missing paths are ignored
+ */
+export function removePath(target: string): void {
+    if (fs.existsSync(target)) {
+        fs.rmSync(target, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Copy or move an asset path into a destination directory within a
+ * transaction, keeping its base name. Returns the destination path.
+ */
+export function transferPath(tx: Transaction, src: string, destDir: string, mode: TransferMode, label: string, target: AssetLocation): string {
+    const destPath = path.join(destDir, path.basename(src));
+    if (fs.existsSync(destPath)) {
+        throw new Error(`${label} already exists in ${describeLocation(target)} scope`);
+    }
+
+    if (mode === 'move') {
+        tx.move(src, destPath);
+    } else {
+        tx.copy(src, destPath);
+    }
+    return destPath;
+}
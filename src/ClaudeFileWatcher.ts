@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import { PluginManager } from './PluginManager';
+import { ASSET_KINDS, AssetKind, getAssetLocations, getScopeRoot } from './ClaudeAsset';
+
+export type WatchedCategory = AssetKind;
+
+export interface ClaudeFileChange {
+    scope: 'user' | 'project';
+    category: WatchedCategory;
+    projectFolder?: string;  // set for project scope changes; undefined means every folder
+}
+
+// Every asset kind stored in a container directory is watched
+const CONTAINER_CATEGORIES: Record<string, WatchedCategory> = Object.fromEntries(
+    Object.values(ASSET_KINDS)
+        .filter(definition => definition.container)
+        .map(definition => [definition.container!, definition.kind])
+);
+
+/**
+ * Watches the asset containers and settings files of the user and project
+ * .claude directories and installed_plugins.json, and reports debounced per
+ * scope/category changes.
+ * Covers edits made outside the extension: git pull, the claude CLI, editors.
+ */
+export class ClaudeFileWatcher implements vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<ClaudeFileChange>();
+    readonly onDidChange: vscode.Event<ClaudeFileChange> = this._onDidChange.event;
+
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private pending = new Map<string, NodeJS.Timeout>();
+    private readonly debounceMs = 300;
+
+    constructor(
+        private pluginManager: PluginManager,
+        private output: vscode.OutputChannel
+    ) { }
+
+    /**
+     * (Re)create watchers for the currently configured paths
+     */
+    start(): void {
+        this.stop();
+
+        const roots = getAssetLocations().map(location => ({ ...location, root: getScopeRoot(location) }));
+        const containers = Object.keys(CONTAINER_CATEGORIES).join(',');
+
+        for (const { root, scope, projectFolder } of roots) {
+            this.watch(
+                new vscode.RelativePattern(vscode.Uri.file(root), `{${containers}}/**`),
+                uri => {
+                    const container = path.relative(root, uri.fsPath).split(path.sep)[0];
+                    const category = CONTAINER_CATEGORIES[container];
+                    if (category) {
+                        this.queue({ scope, category, projectFolder });
+                    }
+                }
+            );
+        }
+
+        // Hooks, the status line and the active output style live in
+        // settings.json and settings.local.json of each scope;
+        // settings.local.json also disables project MCP servers
+        for (const { root, scope, projectFolder } of roots) {
+            this.watch(
+                new vscode.RelativePattern(vscode.Uri.file(root), 'settings{,.local}.json'),
+                () => {
+                    this.queue({ scope, category: 'hook', projectFolder });
+                    this.queue({ scope, category: 'statusLine', projectFolder });
+                    this.queue({ scope, category: 'outputStyle', projectFolder });
+                    if (scope === 'project') {
+                        this.queue({ scope, category: 'mcpServer', projectFolder });
+                    }
+                }
+            );
+        }
+
+        // MCP servers: .mcp.json at each folder root, ~/.claude.json and the
+        // file holding disabled user servers
+        for (const { scope, projectFolder } of roots) {
+            if (projectFolder) {
+                this.watch(
+                    new vscode.RelativePattern(vscode.Uri.file(projectFolder), '.mcp.json'),
+                    () => this.queue({ scope, category: 'mcpServer', projectFolder })
+                );
+            }
+        }
+        this.watch(
+            new vscode.RelativePattern(vscode.Uri.file(os.homedir()), '.claude.json'),
+            () => this.queue({ scope: 'user', category: 'mcpServer' })
+        );
+        this.watch(
+            new vscode.RelativePattern(vscode.Uri.file(path.join(os.homedir(), '.claude')), '.assist-disabled-mcp.json'),
+            () => this.queue({ scope: 'user', category: 'mcpServer' })
+        );
+
+        // Memory: user CLAUDE.md and every CLAUDE.md / CLAUDE.local.md of a folder
+        for (const { root, scope, projectFolder } of roots) {
+            this.watch(
+                new vscode.RelativePattern(vscode.Uri.file(projectFolder || root), projectFolder ? '**/CLAUDE{,.local}.md' : 'CLAUDE.md'),
+                () => this.queue({ scope, category: 'memory', projectFolder })
+            );
+        }
+
+        // installed_plugins.json lists plugins of both scopes
+        const installedPlugins = this.pluginManager.getInstalledPluginsPath();
+        this.watch(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(installedPlugins)), path.basename(installedPlugins)),
+            () => {
+                this.queue({ scope: 'user', category: 'plugin' });
+                this.queue({ scope: 'project', category: 'plugin' });
+            }
+        );
+
+        this.output.appendLine(`ClaudeFileWatcher: Watching ${roots.map(r => r.root).join(', ')}`);
+    }
+
+    stop(): void {
+        for (const watcher of this.watchers) {
+            watcher.dispose();
+        }
+        this.watchers = [];
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+        for (const timer of this.pending.values()) {
+            clearTimeout(timer);
+        }
+        this.pending.clear();
+    }
+
+    private watch(pattern: vscode.RelativePattern, handler: (uri: vscode.Uri) => void): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        watcher.onDidChange(handler, null, this.disposables);
+        watcher.onDidCreate(handler, null, this.disposables);
+        watcher.onDidDelete(handler, null, this.disposables);
+        this.watchers.push(watcher);
+    }
+
+    /**
+     * Debounce per scope/category so a burst of events fires once
+     */
+    private queue(change: ClaudeFileChange): void {
+        const key = `${change.scope}:${change.category}:${change.projectFolder || ''}`;
+        const existing = this.pending.get(key);
+        if (existing) {
+            clearTimeout(existing);
+        }
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this._onDidChange.fire(change);
+        }, this.debounceMs));
+    }
+
+    dispose(): void {
+        this.stop();
+        this._onDidChange.dispose();
+    }
+}
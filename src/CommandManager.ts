@@ -1,258 +1,51 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-
-export interface CommandItem {
-    name: string;
-    path: string;
-    scope: 'user' | 'project';
+import { FrontmatterError, SkillMetadata, readMetadata } from './FrontmatterParser';
+import { AssetLocation, AssetTransferer, ClaudeAsset, TransferMode } from './ClaudeAsset';
+import { FileAssetStore } from './FileAssetStore';
+import { TrashEntry } from './TrashManager';
+
+export interface CommandItem extends ClaudeAsset {
+    definitionFile?: string;
+    metadata?: SkillMetadata;
+    metadataErrors?: FrontmatterError[];
 }
 
-export class CommandManager {
-    // 配置文件排除列表 - 这些文件不应被识别为 command
-    private readonly CONFIG_FILES = new Set([
-        'settings.json',
-        'settings.local.json',
-        'CLAUDE.md',
-        'rules.md',
-        'context.md',
-        'prompts.md',
-        '.mcp.json'
-    ]);
+export class CommandManager implements AssetTransferer<CommandItem> {
+    private readonly store = new FileAssetStore<CommandItem>('command', (name, itemPath, location) => this.createCommandItem(name, itemPath, location));
 
     constructor() { }
 
-    private getUserCommandsPath(): string {
-        const config = vscode.workspace.getConfiguration('claudeCodeAssist');
-        let basePath = config.get<string>('globalSkillsPath') || '~/.claude';
-        if (basePath.startsWith('~')) {
-            basePath = path.join(os.homedir(), basePath.slice(1));
-        }
-        return path.join(basePath, 'commands');
-    }
-
-    private getProjectCommandsPath(): string | undefined {
-        if (!vscode.workspace.workspaceFolders) {
-            return undefined;
-        }
-        const config = vscode.workspace.getConfiguration('claudeCodeAssist');
-        const projectPathRel = config.get<string>('projectSkillsPath') || './.claude';
-        return path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, projectPathRel, 'commands');
-    }
-
     public async getCommands(): Promise<CommandItem[]> {
-        const commands: CommandItem[] = [];
-
-        // Scan user commands
-        this.scanCommandsDirectory(this.getUserCommandsPath(), 'user', commands);
-
-        // Scan project commands
-        const projectPath = this.getProjectCommandsPath();
-        if (projectPath) {
-            this.scanCommandsDirectory(projectPath, 'project', commands);
-        }
-
-        return commands;
+        return this.store.list();
     }
 
-    private scanCommandsDirectory(dirPath: string, scope: 'user' | 'project', commands: CommandItem[]): void {
-        if (!fs.existsSync(dirPath)) {
-            return;
-        }
-
-        const entries = fs.readdirSync(dirPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-            // 跳过隐藏文件和配置文件
-            if (entry.name.startsWith('.') || this.CONFIG_FILES.has(entry.name)) {
-                continue;
-            }
+    private createCommandItem(name: string, itemPath: string, location: AssetLocation): CommandItem {
+        const item: CommandItem = {
+            name,
+            path: itemPath,
+            scope: location.scope,
+            projectFolder: location.projectFolder
+        };
 
-            const entryPath = path.join(dirPath, entry.name);
-
-            if (entry.isDirectory()) {
-                // 目录作为 command 单元
-                commands.push({
-                    name: entry.name,
-                    path: entryPath,
-                    scope: scope
-                });
-            } else if (entry.isFile() && /\.md$/i.test(entry.name)) {
-                // 只接受 .md 文件作为独立 command
-                commands.push({
-                    name: entry.name,
-                    path: entryPath,
-                    scope: scope
-                });
-            }
+        // 目录作为 command 命名空间, 单个 .md 文件带 frontmatter
+        if (!fs.statSync(itemPath).isDirectory()) {
+            const { definitionFile, metadata, errors } = readMetadata(itemPath);
+            item.definitionFile = definitionFile;
+            item.metadata = metadata;
+            item.metadataErrors = errors;
         }
+        return item;
     }
 
-    public async deleteCommand(item: CommandItem): Promise<void> {
-        if (fs.existsSync(item.path)) {
-            const stats = fs.statSync(item.path);
-            if (stats.isDirectory()) {
-                this.deleteRecursiveSync(item.path);
-            } else {
-                fs.unlinkSync(item.path);
-            }
-        }
+    public async deleteCommand(item: CommandItem): Promise<TrashEntry> {
+        return this.store.delete(item);
     }
 
-    private deleteRecursiveSync(dirPath: string): void {
-        if (fs.existsSync(dirPath)) {
-            fs.readdirSync(dirPath).forEach((file) => {
-                const curPath = path.join(dirPath, file);
-                if (fs.statSync(curPath).isDirectory()) {
-                    this.deleteRecursiveSync(curPath);
-                } else {
-                    fs.unlinkSync(curPath);
-                }
-            });
-            fs.rmdirSync(dirPath);
-        }
+    public async transfer(command: CommandItem, target: AssetLocation, mode: TransferMode): Promise<void> {
+        await this.store.transfer(command, target, mode);
     }
 
-    private moveFileOrDir(src: string, dest: string): void {
-        try {
-            fs.renameSync(src, dest);
-        } catch (err: unknown) {
-            const error = err as NodeJS.ErrnoException;
-            if (error.code === 'EXDEV') {
-                // Cross-device move: copy then delete
-                if (fs.statSync(src).isDirectory()) {
-                    this.copyRecursiveSync(src, dest);
-                    this.deleteRecursiveSync(src);
-                } else {
-                    fs.copyFileSync(src, dest);
-                    fs.unlinkSync(src);
-                }
-            } else {
-                throw err;
-            }
-        }
-    }
-
-    public async moveToUser(command: CommandItem): Promise<void> {
-        if (command.scope === 'user') { return; }
-
-        const userCommandsPath = this.getUserCommandsPath();
-
-        if (!fs.existsSync(userCommandsPath)) {
-            fs.mkdirSync(userCommandsPath, { recursive: true });
-        }
-
-        const baseName = path.basename(command.path);
-        const finalDestPath = path.join(userCommandsPath, baseName);
-
-        if (fs.existsSync(finalDestPath)) {
-            throw new Error('Command already exists in user scope');
-        }
-
-        this.moveFileOrDir(command.path, finalDestPath);
-    }
-
-    public async copyToUser(command: CommandItem): Promise<void> {
-        if (command.scope === 'user') { return; }
-
-        const userCommandsPath = this.getUserCommandsPath();
-
-        if (!fs.existsSync(userCommandsPath)) {
-            fs.mkdirSync(userCommandsPath, { recursive: true });
-        }
-
-        const baseName = path.basename(command.path);
-        const finalDestPath = path.join(userCommandsPath, baseName);
-
-        if (fs.existsSync(finalDestPath)) {
-            throw new Error('Command already exists in user scope');
-        }
-
-        if (fs.statSync(command.path).isDirectory()) {
-            this.copyRecursiveSync(command.path, finalDestPath);
-        } else {
-            fs.copyFileSync(command.path, finalDestPath);
-        }
-    }
-
-    private copyRecursiveSync(src: string, dest: string) {
-        if (!fs.existsSync(dest)) {
-            fs.mkdirSync(dest, { recursive: true });
-        }
-
-        fs.readdirSync(src).forEach((childItemName) => {
-            const childItemPath = path.join(src, childItemName);
-            const childItemDestPath = path.join(dest, childItemName);
-            const childStats = fs.statSync(childItemPath);
-
-            if (childStats.isDirectory()) {
-                this.copyRecursiveSync(childItemPath, childItemDestPath);
-            } else {
-                fs.copyFileSync(childItemPath, childItemDestPath);
-            }
-        });
-    }
-
-    public async moveToProject(command: CommandItem): Promise<void> {
-        if (command.scope === 'project') { return; }
-
-        const projectCommandsPath = this.getProjectCommandsPath();
-        if (!projectCommandsPath) {
-            throw new Error('No workspace folder open');
-        }
-
-        if (!fs.existsSync(projectCommandsPath)) {
-            fs.mkdirSync(projectCommandsPath, { recursive: true });
-        }
-
-        const baseName = path.basename(command.path);
-        const finalDestPath = path.join(projectCommandsPath, baseName);
-
-        if (fs.existsSync(finalDestPath)) {
-            throw new Error('Command already exists in project scope');
-        }
-
-        this.moveFileOrDir(command.path, finalDestPath);
-    }
-
-    public async copyToProject(command: CommandItem): Promise<void> {
-        if (command.scope === 'project') { return; }
-
-        const projectCommandsPath = this.getProjectCommandsPath();
-        if (!projectCommandsPath) {
-            throw new Error('No workspace folder open');
-        }
-
-        if (!fs.existsSync(projectCommandsPath)) {
-            fs.mkdirSync(projectCommandsPath, { recursive: true });
-        }
-
-        const baseName = path.basename(command.path);
-        const finalDestPath = path.join(projectCommandsPath, baseName);
-
-        if (fs.existsSync(finalDestPath)) {
-            throw new Error('Command already exists in project scope');
-        }
-
-        if (fs.statSync(command.path).isDirectory()) {
-            this.copyRecursiveSync(command.path, finalDestPath);
-        } else {
-            fs.copyFileSync(command.path, finalDestPath);
-        }
-    }
-
-    public async saveCommand(name: string, content: string, scope: 'user' | 'project'): Promise<void> {
-        let basePath = scope === 'user' ? this.getUserCommandsPath() : this.getProjectCommandsPath();
-        if (!basePath) {
-            throw new Error('Project path not available');
-        }
-
-        if (!fs.existsSync(basePath)) {
-            fs.mkdirSync(basePath, { recursive: true });
-        }
-
-        const filePath = path.join(basePath, `${name.replace(/\s+/g, '_')}.md`);
-        fs.writeFileSync(filePath, content);
+    public async saveCommand(name: string, content: string, scope: 'user' | 'project', projectFolder?: string): Promise<void> {
+        await this.store.save(name, content, { scope, projectFolder });
     }
 }
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    AssetKind, AssetLocation, AssetTransferer, ClaudeAsset, TransferMode, ASSET_KINDS,
+    getAssetLocations, getAssetContainer, isSameLocation, transferPath
+} from './ClaudeAsset';
+import { TrashEntry, getTrashManager } from './TrashManager';
+import { runTransaction } from './Transaction';
+
+// Files that live next to assets but are never assets themselves
+const CONFIG_FILES = new Set([
+    'settings.json',
+    'settings.local.json',
+    'CLAUDE.md',
+    'rules.md',
+    'context.md',
+    'prompts.md',
+    '.mcp.json'
+]);
+
+/**
+ * Assets stored as a file or folder per item in a container directory of
+ * every scope (skills/, agents/, commands/ ...). A new kind of this shape
+ * only needs an ASSET_KINDS entry and an item factory.
+ */
+export class FileAssetStore<T extends ClaudeAsset> implements AssetTransferer<T> {
+    constructor(
+        private kind: AssetKind,
+        private createItem: (name: string, itemPath: string, location: AssetLocation) => T
+    ) { }
+
+    /**
+     * List the assets of every location: folders are one unit, matching files
+     * are standalone assets
+     */
+    public list(): T[] {
+        const items: T[] = [];
+        for (const location of getAssetLocations()) {
+            const dirPath = getAssetContainer(this.kind, location);
+            if (!fs.existsSync(dirPath)) {
+                continue;
+            }
+
+            for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+                // 跳过隐藏文件和配置文件
+                if (entry.name.startsWith('.') || CONFIG_FILES.has(entry.name)) {
+                    continue;
+                }
+
+                const entryPath = path.join(dirPath, entry.name);
+                if (entry.isDirectory() || (entry.isFile() && ASSET_KINDS[this.kind].filePattern?.test(entry.name))) {
+                    items.push(this.createItem(entry.name, entryPath, location));
+                }
+            }
+        }
+        return items;
+    }
+
+    /**
+     * Move an asset to Recently Deleted
+     */
+    public async delete(item: T): Promise<TrashEntry> {
+        return getTrashManager().trash(this.kind, item);
+    }
+
+    public async transfer(item: T, target: AssetLocation, mode: TransferMode): Promise<void> {
+        if (isSameLocation(item, target)) { return; }
+        await runTransaction(tx => transferPath(tx, item.path, getAssetContainer(this.kind, target), mode, ASSET_KINDS[this.kind].label, target));
+    }
+
+    /**
+     * Write a single-file asset, returning its path
+     */
+    public async save(name: string, content: string, location: AssetLocation): Promise<string> {
+        const targetDir = getAssetContainer(this.kind, location);
+        if (!fs.existsSync(targetDir)) {
+            fs.mkdirSync(targetDir, { recursive: true });
+        }
+
+        const filePath = path.join(targetDir, `${name.replace(/\s+/g, '_')}.md`);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+}
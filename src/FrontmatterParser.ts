@@ -0,0 +1,431 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type FrontmatterValue = string | number | boolean | null | FrontmatterValue[] | { [key: string]: FrontmatterValue };
+
+export interface FrontmatterError {
+    message: string;
+    line: number;  // 0-based line in the source file
+}
+
+export interface ParsedFrontmatter {
+    hasFrontmatter: boolean;
+    data: Record<string, FrontmatterValue>;
+    keyLines: Record<string, number>;  // top-level key -> 0-based line
+    body: string;
+    endLine: number;  // line of the closing '---', -1 when there is no frontmatter
+    errors: FrontmatterError[];
+}
+
+/**
+ * Typed view over the frontmatter keys Claude Code understands for
+ * skills (SKILL.md), agents and slash commands
+ */
+export interface SkillMetadata {
+    name?: string;
+    description?: string;
+    allowedTools?: string[];
+    tools?: string[];
+    model?: string;
+    color?: string;
+    version?: string;
+    license?: string;
+    argumentHint?: string;
+    raw: Record<string, FrontmatterValue>;
+}
+
+export interface MetadataReadResult {
+    definitionFile?: string;
+    metadata?: SkillMetadata;
+    errors: FrontmatterError[];
+}
+
+interface SourceLine {
+    text: string;
+    indent: number;
+    index: number;
+}
+
+/**
+ * Parse the YAML frontmatter block at the top of a markdown file.
+ *
+ * Only the YAML subset used by Claude Code definition files is supported:
+ * nested mappings, block and flow sequences, quoted/plain scalars and
+ * literal/folded block scalars. Anything else is reported in `errors`.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+    const result: ParsedFrontmatter = {
+        hasFrontmatter: false,
+        data: {},
+        keyLines: {},
+        body: content,
+        endLine: -1,
+        errors: []
+    };
+
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    if (lines.length === 0 || lines[0].trim() !== '---') {
+        return result;
+    }
+
+    result.hasFrontmatter = true;
+    const closing = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (closing === -1) {
+        result.errors.push({ message: 'Frontmatter is not closed with "---"', line: 0 });
+        return result;
+    }
+
+    result.endLine = closing;
+    result.body = lines.slice(closing + 1).join('\n');
+
+    const yamlLines: SourceLine[] = [];
+    for (let i = 1; i < closing; i++) {
+        const text = lines[i];
+        if (text.trim() === '' || text.trim().startsWith('#')) {
+            continue;
+        }
+        if (/^\s*\t/.test(text)) {
+            result.errors.push({ message: 'Tabs are not allowed for indentation in YAML', line: i });
+            continue;
+        }
+        yamlLines.push({ text, indent: text.length - text.trimStart().length, index: i });
+    }
+
+    const parser = new YamlSubsetParser(lines, yamlLines, result.errors);
+    const parsed = parser.parseMapping(0, result.keyLines);
+    result.data = parsed;
+
+    return result;
+}
+
+class YamlSubsetParser {
+    private pos = 0;
+
+    constructor(
+        private readonly allLines: string[],
+        private readonly lines: SourceLine[],
+        private readonly errors: FrontmatterError[]
+    ) { }
+
+    parseMapping(indent: number, keyLines?: Record<string, number>): Record<string, FrontmatterValue> {
+        const mapping: Record<string, FrontmatterValue> = {};
+
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent < indent) {
+                break;
+            }
+            if (line.indent > indent) {
+                this.errors.push({ message: 'Unexpected indentation', line: line.index });
+                this.pos++;
+                continue;
+            }
+
+            const match = line.text.trim().match(/^("[^"]*"|'[^']*'|[^:#][^:]*?)\s*:(?:\s+(.*))?$/);
+            if (!match) {
+                this.errors.push({ message: `Expected "key: value", got "${line.text.trim()}"`, line: line.index });
+                this.pos++;
+                continue;
+            }
+
+            const key = this.unquote(match[1]);
+            const rest = stripComment(match[2] || '').trim();
+            if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+                this.errors.push({ message: `Duplicate key "${key}"`, line: line.index });
+            }
+            if (keyLines) {
+                keyLines[key] = line.index;
+            }
+            this.pos++;
+
+            if (rest === '|' || rest === '>' || /^[|>][+-]?$/.test(rest)) {
+                mapping[key] = this.parseBlockScalar(line, rest.startsWith('>'));
+            } else if (rest === '') {
+                const next = this.lines[this.pos];
+                const nextTrimmed = next ? next.text.trim() : '';
+                if (next && next.indent >= indent && (nextTrimmed === '-' || nextTrimmed.startsWith('- '))) {
+                    mapping[key] = this.parseSequence(next.indent);
+                } else if (next && next.indent > indent) {
+                    mapping[key] = this.parseMapping(next.indent);
+                } else {
+                    mapping[key] = null;
+                }
+            } else {
+                mapping[key] = this.parseInline(rest, line.index);
+            }
+        }
+
+        return mapping;
+    }
+
+    private parseSequence(indent: number): FrontmatterValue[] {
+        const items: FrontmatterValue[] = [];
+
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            const trimmed = line.text.trim();
+            if (line.indent !== indent || !(trimmed === '-' || trimmed.startsWith('- '))) {
+                if (line.indent > indent) {
+                    this.errors.push({ message: 'Unexpected indentation in list', line: line.index });
+                    this.pos++;
+                    continue;
+                }
+                break;
+            }
+
+            this.pos++;
+            const value = stripComment(trimmed.substring(1)).trim();
+            items.push(value === '' ? null : this.parseInline(value, line.index));
+        }
+
+        return items;
+    }
+
+    private parseBlockScalar(header: SourceLine, folded: boolean): string {
+        // Block scalars may contain blank lines and '#', so read raw source lines
+        const collected: string[] = [];
+        let blockIndent = -1;
+        let lineIndex = header.index + 1;
+
+        while (lineIndex < this.allLines.length) {
+            const raw = this.allLines[lineIndex];
+            if (raw === undefined || /^(---|\.\.\.)\s*$/.test(raw)) {
+                break;
+            }
+            const indent = raw.length - raw.trimStart().length;
+            if (raw.trim() !== '') {
+                if (blockIndent === -1) {
+                    blockIndent = indent;
+                }
+                if (indent < blockIndent || indent <= header.indent) {
+                    break;
+                }
+            }
+            collected.push(raw.trim() === '' ? '' : raw.substring(blockIndent));
+            lineIndex++;
+        }
+
+        while (this.pos < this.lines.length && this.lines[this.pos].index < lineIndex) {
+            this.pos++;
+        }
+
+        while (collected.length > 0 && collected[collected.length - 1] === '') {
+            collected.pop();
+        }
+
+        return folded
+            ? collected.join('\n').replace(/([^\n])\n(?!\n)/g, '$1 ')
+            : collected.join('\n');
+    }
+
+    private parseInline(value: string, line: number): FrontmatterValue {
+        if (value.startsWith('[')) {
+            if (!value.endsWith(']')) {
+                this.errors.push({ message: 'Unterminated flow sequence', line });
+                return value;
+            }
+            const inner = value.slice(1, -1).trim();
+            if (inner === '') {
+                return [];
+            }
+            return splitFlow(inner).map(part => this.parseScalar(part.trim(), line));
+        }
+        if (value.startsWith('{')) {
+            if (!value.endsWith('}')) {
+                this.errors.push({ message: 'Unterminated flow mapping', line });
+                return value;
+            }
+            const mapping: Record<string, FrontmatterValue> = {};
+            const inner = value.slice(1, -1).trim();
+            for (const part of inner ? splitFlow(inner) : []) {
+                const sep = part.indexOf(':');
+                if (sep === -1) {
+                    this.errors.push({ message: `Expected "key: value" in flow mapping, got "${part.trim()}"`, line });
+                    continue;
+                }
+                mapping[this.unquote(part.substring(0, sep).trim())] = this.parseScalar(part.substring(sep + 1).trim(), line);
+            }
+            return mapping;
+        }
+        return this.parseScalar(value, line);
+    }
+
+    private parseScalar(value: string, line: number): FrontmatterValue {
+        if (value.startsWith('"') || value.startsWith("'")) {
+            const quote = value[0];
+            if (value.length < 2 || !value.endsWith(quote)) {
+                this.errors.push({ message: 'Unterminated quoted string', line });
+                return value.substring(1);
+            }
+            return this.unquote(value);
+        }
+        if (/^(true|yes|on)$/i.test(value)) { return true; }
+        if (/^(false|no|off)$/i.test(value)) { return false; }
+        if (/^(null|~)$/i.test(value)) { return null; }
+        // Fractions stay text: "version: 1.10" must not become 1.1
+        if (/^-?\d+$/.test(value)) { return Number(value); }
+        if (/^[&*!]/.test(value)) {
+            this.errors.push({ message: 'YAML anchors, aliases and tags are not supported', line });
+        }
+        return value;
+    }
+
+    private unquote(value: string): string {
+        if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+            // One pass, so an escaped backslash before "n" stays a backslash
+            const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+            return value.slice(1, -1).replace(/\\([nt"\\])/g, (_, ch: string) => escapes[ch]);
+        }
+        if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+            return value.slice(1, -1).replace(/''/g, "'");
+        }
+        return value;
+    }
+}
+
+/**
+ * Remove a trailing " # comment" outside of quotes
+ */
+function stripComment(value: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < value.length; i++) {
+        const ch = value[i];
+        if (quote) {
+            if (ch === quote) { quote = null; }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+            return value.substring(0, i);
+        }
+    }
+    return value;
+}
+
+/**
+ * Split the inside of a flow collection on top-level commas
+ */
+function splitFlow(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const ch of value) {
+        if (quote) {
+            if (ch === quote) { quote = null; }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '[' || ch === '{' || ch === '(') {
+            depth++;
+        } else if (ch === ']' || ch === '}' || ch === ')') {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    parts.push(current);
+
+    return parts;
+}
+
+/**
+ * Normalize a tool list that may be written as a YAML list or as a
+ * comma-separated string ("Read, Grep, Bash(git:*)")
+ */
+export function parseToolList(value: FrontmatterValue | undefined): string[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (Array.isArray(value)) {
+        return value.map(v => String(v).trim()).filter(v => v.length > 0);
+    }
+    return splitFlow(String(value)).map(v => v.trim()).filter(v => v.length > 0);
+}
+
+/**
+ * Map raw frontmatter data onto the typed metadata model
+ */
+export function toSkillMetadata(data: Record<string, FrontmatterValue>): SkillMetadata {
+    const str = (key: string): string | undefined => {
+        const value = data[key];
+        return value === undefined || value === null || typeof value === 'object' ? undefined : String(value);
+    };
+
+    return {
+        name: str('name'),
+        description: str('description'),
+        allowedTools: parseToolList(data['allowed-tools']),
+        tools: parseToolList(data['tools']),
+        model: str('model'),
+        color: str('color'),
+        version: str('version'),
+        license: str('license'),
+        argumentHint: str('argument-hint'),
+        raw: data
+    };
+}
+
+/**
+ * Find the markdown file that defines a skill/agent/command.
+ * Folders use SKILL.md (or AGENT.md / the single top-level .md file),
+ * standalone items are their own definition file.
+ */
+export function resolveDefinitionFile(itemPath: string): string | undefined {
+    if (!fs.existsSync(itemPath)) {
+        return undefined;
+    }
+
+    if (!fs.statSync(itemPath).isDirectory()) {
+        return /\.md$/i.test(itemPath) ? itemPath : undefined;
+    }
+
+    const mdFiles = fs.readdirSync(itemPath).filter(f => /\.md$/i.test(f));
+    const preferred = ['skill.md', 'agent.md'];
+    for (const name of preferred) {
+        const match = mdFiles.find(f => f.toLowerCase() === name);
+        if (match) {
+            return path.join(itemPath, match);
+        }
+    }
+
+    const candidates = mdFiles.filter(f => f.toLowerCase() !== 'readme.md');
+    return candidates.length === 1 ? path.join(itemPath, candidates[0]) : undefined;
+}
+
+/**
+ * Read and parse the definition file of a skill/agent/command
+ */
+export function readMetadata(itemPath: string): MetadataReadResult {
+    let definitionFile: string | undefined;
+    try {
+        definitionFile = resolveDefinitionFile(itemPath);
+    } catch (error) {
+        return {
+            errors: [{ message: `Failed to read ${itemPath}: ${error instanceof Error ? error.message : String(error)}`, line: 0 }]
+        };
+    }
+
+    if (!definitionFile) {
+        return { errors: [] };
+    }
+
+    let content: string;
+    try {
+        content = fs.readFileSync(definitionFile, 'utf-8');
+    } catch (error) {
+        return {
+            definitionFile,
+            errors: [{ message: `Failed to read ${path.basename(definitionFile)}: ${error instanceof Error ? error.message : String(error)}`, line: 0 }]
+        };
+    }
+
+    const parsed = parseFrontmatter(content);
+    return {
+        definitionFile,
+        metadata: parsed.hasFrontmatter ? toSkillMetadata(parsed.data) : undefined,
+        errors: parsed.errors
+    };
+}
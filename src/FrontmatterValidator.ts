@@ -0,0 +1,327 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillManager } from './SkillManager';
+import { CommandManager } from './CommandManager';
+import { ClaudeFileWatcher } from './ClaudeFileWatcher';
+import { ParsedFrontmatter, parseFrontmatter, parseToolList } from './FrontmatterParser';
+
+type DefinitionType = 'skill' | 'agent' | 'command';
+
+interface DefinitionFile {
+    type: DefinitionType;
+    scope: 'user' | 'project';
+    projectFolder?: string;
+    itemPath: string;
+    filePath: string;
+    isFolder: boolean;
+}
+
+// Frontmatter keys recognised by Claude Code for each definition type
+const KNOWN_KEYS: Record<DefinitionType, Set<string>> = {
+    skill: new Set([
+        'name', 'description', 'allowed-tools', 'license', 'version', 'model', 'metadata',
+        'disable-model-invocation', 'user-invocable', 'argument-hint', 'context', 'agent', 'hooks'
+    ]),
+    agent: new Set([
+        'name', 'description', 'tools', 'disallowedTools', 'model', 'color', 'permissionMode', 'skills', 'hooks'
+    ]),
+    command: new Set([
+        'description', 'allowed-tools', 'argument-hint', 'model', 'disable-model-invocation'
+    ])
+};
+
+const MODEL_ALIASES = new Set(['sonnet', 'opus', 'haiku', 'inherit', 'default', 'opusplan']);
+const TOOL_PATTERN = /^(?:mcp__[\w-]+(?:__[\w-]+)?|[A-Z][A-Za-z0-9]*(?:\((?:[^()]|\([^()]*\))+\))?|\*)$/;
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Validates skill, agent and command frontmatter and publishes the
+ * findings to the Problems panel
+ */
+export class FrontmatterValidator implements vscode.Disposable {
+    private diagnostics: vscode.DiagnosticCollection;
+    private disposables: vscode.Disposable[] = [];
+    private debounceTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private skillManager: SkillManager,
+        private commandManager: CommandManager,
+        fileWatcher: ClaudeFileWatcher,
+        private output: vscode.OutputChannel
+    ) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('claude-frontmatter');
+
+        // Re-validate whenever a skill, agent or command file changes on disk
+        fileWatcher.onDidChange(change => {
+            if (change.category === 'skill' || change.category === 'agent' || change.category === 'command') {
+                this.scheduleValidation();
+            }
+        }, null, this.disposables);
+    }
+
+    /**
+     * Debounce bursts of file events (git pull, bulk copy) into one run
+     */
+    scheduleValidation(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.validateAll().catch(error => {
+                this.output.appendLine(`FrontmatterValidator: validation failed: ${error}`);
+            });
+        }, 300);
+    }
+
+    /**
+     * Validate every discovered definition file and replace all diagnostics
+     */
+    async validateAll(): Promise<void> {
+        const results = new Map<string, vscode.Diagnostic[]>();
+        const files = await this.collectDefinitionFiles(results);
+        const names: { name: string; file: DefinitionFile; line: number }[] = [];
+
+        for (const file of files) {
+            let content: string;
+            try {
+                content = fs.readFileSync(file.filePath, 'utf-8');
+            } catch (error) {
+                this.output.appendLine(`FrontmatterValidator: cannot read ${file.filePath}: ${error}`);
+                continue;
+            }
+
+            try {
+                const parsed = parseFrontmatter(content);
+                results.set(file.filePath, this.validateFile(file, parsed));
+
+                const name = this.effectiveName(file, parsed);
+                if (name) {
+                    names.push({ name, file, line: parsed.keyLines['name'] ?? 0 });
+                }
+            } catch (error) {
+                this.output.appendLine(`FrontmatterValidator: cannot validate ${file.filePath}: ${error}`);
+            }
+        }
+
+        this.checkDuplicateNames(names, results);
+
+        this.diagnostics.clear();
+        for (const [filePath, diagnostics] of results) {
+            if (diagnostics.length > 0) {
+                this.diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+            }
+        }
+    }
+
+    private async collectDefinitionFiles(results: Map<string, vscode.Diagnostic[]>): Promise<DefinitionFile[]> {
+        const files: DefinitionFile[] = [];
+
+        const skills = await this.skillManager.getSkills();
+        for (const skill of skills) {
+            // Items can be deleted while a watcher event is being handled
+            try {
+                const isFolder = fs.statSync(skill.path).isDirectory();
+                if (skill.definitionFile) {
+                    files.push({ type: skill.type, scope: skill.scope, projectFolder: skill.projectFolder, itemPath: skill.path, filePath: skill.definitionFile, isFolder });
+                } else if (isFolder && skill.type === 'skill') {
+                    // A skill folder without SKILL.md is never loaded by Claude Code.
+                    // Reported on the expected file, the Problems panel cannot open folders.
+                    const diagnostic = new vscode.Diagnostic(
+                        new vscode.Range(0, 0, 0, 0),
+                        `Skill folder "${skill.name}" has no SKILL.md`,
+                        vscode.DiagnosticSeverity.Error
+                    );
+                    diagnostic.source = 'Claude Code Assist';
+                    diagnostic.code = 'missing-definition';
+                    results.set(path.join(skill.path, 'SKILL.md'), [diagnostic]);
+                }
+            } catch (error) {
+                this.output.appendLine(`FrontmatterValidator: skipping ${skill.path}: ${error}`);
+            }
+        }
+
+        const commands = await this.commandManager.getCommands();
+        for (const command of commands) {
+            try {
+                if (fs.statSync(command.path).isDirectory()) {
+                    // Command folders are namespaces: every .md inside is a command
+                    for (const filePath of this.findMarkdownFiles(command.path)) {
+                        files.push({ type: 'command', scope: command.scope, projectFolder: command.projectFolder, itemPath: filePath, filePath, isFolder: false });
+                    }
+                } else {
+                    files.push({ type: 'command', scope: command.scope, projectFolder: command.projectFolder, itemPath: command.path, filePath: command.path, isFolder: false });
+                }
+            } catch (error) {
+                this.output.appendLine(`FrontmatterValidator: skipping ${command.path}: ${error}`);
+            }
+        }
+
+        return files;
+    }
+
+    private findMarkdownFiles(dirPath: string): string[] {
+        const found: string[] = [];
+        for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+            if (entry.name.startsWith('.')) {
+                continue;
+            }
+            const entryPath = path.join(dirPath, entry.name);
+            if (entry.isDirectory()) {
+                found.push(...this.findMarkdownFiles(entryPath));
+            } else if (entry.isFile() && /\.md$/i.test(entry.name)) {
+                found.push(entryPath);
+            }
+        }
+        return found;
+    }
+
+    private validateFile(file: DefinitionFile, parsed: ParsedFrontmatter): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const add = (line: number, message: string, severity: vscode.DiagnosticSeverity, code: string) => {
+            const diagnostic = new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), message, severity);
+            diagnostic.source = 'Claude Code Assist';
+            diagnostic.code = code;
+            diagnostics.push(diagnostic);
+        };
+
+        for (const error of parsed.errors) {
+            add(error.line, error.message, vscode.DiagnosticSeverity.Error, 'frontmatter-syntax');
+        }
+
+        const { data, keyLines } = parsed;
+        const requiresName = file.type !== 'command';
+
+        if (!parsed.hasFrontmatter) {
+            if (requiresName) {
+                add(0, `${this.typeLabel(file.type)} is missing YAML frontmatter with "name" and "description"`, vscode.DiagnosticSeverity.Error, 'missing-frontmatter');
+            }
+            return diagnostics;
+        }
+
+        if (requiresName && !this.isNonEmptyString(data['name'])) {
+            add(0, `${this.typeLabel(file.type)} frontmatter is missing "name"`, vscode.DiagnosticSeverity.Error, 'missing-name');
+        }
+        if (!this.isNonEmptyString(data['description'])) {
+            add(keyLines['description'] ?? 0, `${this.typeLabel(file.type)} frontmatter is missing "description"`,
+                requiresName ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Information, 'missing-description');
+        }
+
+        for (const key of Object.keys(data)) {
+            if (!KNOWN_KEYS[file.type].has(key)) {
+                add(keyLines[key], `Unknown ${file.type} frontmatter key "${key}"`, vscode.DiagnosticSeverity.Warning, 'unknown-key');
+            }
+        }
+
+        const model = data['model'];
+        if (model !== undefined && !this.isValidModel(model)) {
+            add(keyLines['model'], `Invalid model "${model}". Use sonnet, opus, haiku, inherit or a full claude-* model id`,
+                vscode.DiagnosticSeverity.Error, 'invalid-model');
+        }
+
+        for (const key of ['allowed-tools', 'tools', 'disallowedTools']) {
+            const tools = parseToolList(data[key]);
+            for (const tool of tools || []) {
+                if (!TOOL_PATTERN.test(tool)) {
+                    add(keyLines[key], `Invalid tool specification "${tool}" in "${key}"`, vscode.DiagnosticSeverity.Error, 'invalid-tool');
+                }
+            }
+        }
+
+        const name = data['name'];
+        if (requiresName && this.isNonEmptyString(name)) {
+            const nameStr = String(name);
+            if (file.type === 'skill' && !NAME_PATTERN.test(nameStr)) {
+                add(keyLines['name'], `Skill name "${nameStr}" should use lowercase letters, numbers and hyphens only`,
+                    vscode.DiagnosticSeverity.Warning, 'invalid-name');
+            }
+            if (file.isFolder && nameStr !== path.basename(file.itemPath)) {
+                add(keyLines['name'], `Name "${nameStr}" does not match folder "${path.basename(file.itemPath)}"`,
+                    vscode.DiagnosticSeverity.Warning, 'name-mismatch');
+            }
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Report definitions of the same type that resolve to the same name.
+     * Within one scope Claude Code picks one arbitrarily; across scopes the
+     * project definition shadows the user one. Definitions in different
+     * workspace folders never see each other.
+     */
+    private checkDuplicateNames(
+        names: { name: string; file: DefinitionFile; line: number }[],
+        results: Map<string, vscode.Diagnostic[]>
+    ): void {
+        const groups = new Map<string, { name: string; file: DefinitionFile; line: number }[]>();
+        for (const entry of names) {
+            const key = `${entry.file.type}:${entry.name}`;
+            const group = groups.get(key) || [];
+            group.push(entry);
+            groups.set(key, group);
+        }
+
+        for (const group of groups.values()) {
+            if (group.length < 2) {
+                continue;
+            }
+            for (const entry of group) {
+                const others = group.filter(o => o !== entry &&
+                    (o.file.scope === 'user' || entry.file.scope === 'user' || o.file.projectFolder === entry.file.projectFolder));
+                if (others.length === 0) {
+                    continue;
+                }
+                const sameScope = others.some(o => o.file.scope === entry.file.scope);
+                const where = others.map(o => `${o.file.scope}: ${o.file.filePath}`).join(', ');
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(entry.line, 0, entry.line, Number.MAX_SAFE_INTEGER),
+                    sameScope
+                        ? `Duplicate ${entry.file.type} name "${entry.name}" (also defined in ${where})`
+                        : `${this.typeLabel(entry.file.type)} "${entry.name}" is also defined in another scope (${where}); the project definition takes precedence`,
+                    sameScope ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'Claude Code Assist';
+                diagnostic.code = 'duplicate-name';
+                const list = results.get(entry.file.filePath) || [];
+                list.push(diagnostic);
+                results.set(entry.file.filePath, list);
+            }
+        }
+    }
+
+    private effectiveName(file: DefinitionFile, parsed: ParsedFrontmatter): string | undefined {
+        if (file.type === 'command') {
+            return path.basename(file.filePath).replace(/\.md$/i, '');
+        }
+        const name = parsed.data['name'];
+        return this.isNonEmptyString(name) ? String(name) : undefined;
+    }
+
+    private isValidModel(model: unknown): boolean {
+        if (typeof model !== 'string') {
+            return false;
+        }
+        return MODEL_ALIASES.has(model) || /^claude-[a-z0-9][a-z0-9.-]*(\[1m\])?$/.test(model);
+    }
+
+    private isNonEmptyString(value: unknown): boolean {
+        return (typeof value === 'string' && value.trim().length > 0) || typeof value === 'number';
+    }
+
+    private typeLabel(type: DefinitionType): string {
+        return type === 'skill' ? 'Skill' : type === 'agent' ? 'Agent' : 'Command';
+    }
+
+    dispose(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+        this.diagnostics.dispose();
+    }
+}
@@ -0,0 +1,248 @@
+import { SecurityIssue } from './SecurityAuditor';
+
+/**
+ * A static pattern for one of the audit categories. Patterns are matched per
+ * line, so issues carry the exact file and line.
+ */
+interface HeuristicRule {
+    type: string;
+    severity: SecurityIssue['severity'];
+    // Severity when the file also talks to the network
+    networkSeverity?: SecurityIssue['severity'];
+    pattern: RegExp;
+    ignore?: RegExp;  // matches whose text fits this are not reported
+    description: string;
+    suggestion: string;
+}
+
+// Report at most this many hits of one rule per file
+const MAX_HITS_PER_RULE = 5;
+
+// Lines longer than this are minified or data; only the first part is scanned
+const MAX_LINE_LENGTH = 4000;
+
+// Calls and tools that send data off the machine
+const NETWORK_SINK = /\b(?:fetch|curl|wget|ncat|netcat|nc\s+-|axios|XMLHttpRequest|urlopen|requests\.(?:get|post|put)|https?\.(?:request|get)|socket\.connect|WebSocket)\b/;
+
+// Documentation values that only look like credentials
+const PLACEHOLDER = /x{6,}|\*{6,}|\.{3}|example|placeholder|dummy|changeme|your[_-]|[<{]/i;
+
+export const HEURISTIC_RULES: HeuristicRule[] = [
+    // 1. API key exposure
+    {
+        type: 'api_key_exposure',
+        severity: 'critical',
+        pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+        description: 'Hardcoded AWS access key ID',
+        suggestion: 'Remove the key, rotate it and read credentials from the environment or a secret store.'
+    },
+    {
+        type: 'api_key_exposure',
+        severity: 'critical',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/,
+        description: 'Hardcoded GitHub token',
+        suggestion: 'Revoke the token and pass it through an environment variable instead.'
+    },
+    {
+        type: 'api_key_exposure',
+        severity: 'critical',
+        pattern: /\b(?:sk-ant-[A-Za-z0-9_-]{20,}|sk-(?:proj-)?[A-Za-z0-9]{32,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/,
+        description: 'Hardcoded API key (Anthropic, OpenAI, Slack or Google format)',
+        suggestion: 'Revoke the key and load it from the environment at runtime.'
+    },
+    {
+        type: 'api_key_exposure',
+        severity: 'critical',
+        pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY( BLOCK)?-----/,
+        description: 'Embedded private key',
+        suggestion: 'Never ship private keys; remove it and generate a new key pair.'
+    },
+    {
+        type: 'api_key_exposure',
+        severity: 'medium',
+        networkSeverity: 'high',
+        pattern: /\b(?:api[_-]?key|secret|access[_-]?token|auth[_-]?token|password|passwd)\b["']?\s*[:=]\s*["'][^"'\s$<{]{12,}["']/i,
+        ignore: PLACEHOLDER,
+        description: 'Secret-like value assigned to a credential variable',
+        suggestion: 'Replace the literal with an environment variable or a placeholder.'
+    },
+
+    // 2. Data exfiltration
+    {
+        type: 'data_exfiltration',
+        severity: 'critical',
+        pattern: /\b(?:env|printenv|set|history|cat\s+[^|\n]+)\s*\|\s*(?:curl|wget|nc|ncat|netcat)\b/,
+        description: 'Local data piped to a network tool',
+        suggestion: 'Check what is sent and to whom; this pattern uploads local data.'
+    },
+    {
+        type: 'data_exfiltration',
+        severity: 'high',
+        pattern: /\bcurl\b[^\n]*\s(?:-d|--data(?:-binary|-raw|-urlencode)?|-F|--form|-T|--upload-file)\s+["']?@/,
+        description: 'curl uploads the contents of a local file',
+        suggestion: 'Make sure the uploaded file cannot contain user data or secrets.'
+    },
+
+    // 3. Sensitive file access
+    {
+        type: 'sensitive_file_access',
+        severity: 'high',
+        pattern: /(?:~|\$HOME|\$\{HOME\}|homedir\(\)|expanduser\(["']~)[^\n]{0,20}?[/\\'"]\.(?:ssh|aws|gnupg|kube|netrc|npmrc|pypirc|docker|git-credentials)\b/,
+        description: 'Access to a credential directory in the home folder',
+        suggestion: 'Skills and agents should not read credential files; remove the access.'
+    },
+    {
+        type: 'sensitive_file_access',
+        severity: 'high',
+        pattern: /\b(?:id_rsa|id_ed25519|id_ecdsa)\b|\/etc\/(?:shadow|sudoers)\b|\.claude\/\.credentials/,
+        description: 'Reference to private keys or system credential files',
+        suggestion: 'Remove references to key and credential files.'
+    },
+
+    // 4. Shell injection / remote code execution
+    {
+        type: 'shell_injection',
+        severity: 'critical',
+        pattern: /\b(?:curl|wget)\b[^\n|]*\|\s*(?:sudo\s+)?(?:ba|z|da)?sh\b/,
+        description: 'Remote script piped into a shell (curl | sh)',
+        suggestion: 'Download, review and pin the script instead of executing it directly.'
+    },
+    {
+        type: 'shell_injection',
+        severity: 'medium',
+        networkSeverity: 'high',
+        pattern: /(?:^|[^\w.])eval\s*(?:\(|["'$`])/,
+        description: 'Dynamic code execution with eval',
+        suggestion: 'Avoid eval; call the intended code directly.'
+    },
+    {
+        type: 'shell_injection',
+        severity: 'high',
+        pattern: /\b(?:exec|execSync|spawnSync|system|popen)\s*\(\s*(?:`[^`]*\$\{|[^)\n]*\+\s*\w)|\bshell\s*=\s*True\b/,
+        description: 'Shell command built from interpolated input',
+        suggestion: 'Pass arguments as an array without a shell, or validate the input strictly.'
+    },
+
+    // 5. Suspicious URLs
+    {
+        type: 'suspicious_url',
+        severity: 'high',
+        pattern: /https?:\/\/(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?(?:\/|\b)/,
+        description: 'URL with a raw IP address',
+        suggestion: 'Verify the endpoint; legitimate services use domain names.'
+    },
+    {
+        type: 'suspicious_url',
+        severity: 'high',
+        pattern: /https?:\/\/[^\s'"]*(?:pastebin\.com|transfer\.sh|ngrok(?:-free)?\.(?:io|app)|webhook\.site|requestbin|pipedream\.net|discord(?:app)?\.com\/api\/webhooks|trycloudflare\.com|burpcollaborator|interact\.sh|oast\.(?:fun|me|live|site|online|pro))/i,
+        description: 'URL of a paste, tunnel or webhook collection service',
+        suggestion: 'These services are common exfiltration targets; remove or justify the URL.'
+    },
+    {
+        type: 'suspicious_url',
+        severity: 'medium',
+        pattern: /https?:\/\/(?:bit\.ly|tinyurl\.com|t\.co|goo\.gl|is\.gd|rb\.gy)\//i,
+        description: 'Shortened URL hides the real destination',
+        suggestion: 'Replace the short link with the full URL.'
+    },
+
+    // 6. Environment variable access
+    {
+        type: 'env_var_access',
+        severity: 'medium',
+        pattern: /(?:process\.env|os\.environ|getenv|ENV)\s*[[.(]\s*["']?[A-Z0-9_]*(?:API_KEY|SECRET|TOKEN|PASSWORD|CREDENTIALS?|PRIVATE_KEY)\b/,
+        description: 'Reads a credential from an environment variable',
+        suggestion: 'Confirm the value is only used for its intended service.'
+    },
+    {
+        type: 'env_var_access',
+        severity: 'high',
+        pattern: /JSON\.stringify\(\s*process\.env\s*\)|Object\.(?:keys|entries|values)\(\s*process\.env\s*\)|os\.environ\.(?:copy|items)\(\)|dict\(\s*os\.environ\s*\)|^\s*(?:printenv|env)\s*(?:$|>)/,
+        description: 'Collects all environment variables',
+        suggestion: 'Read only the variables that are needed; dumping the environment exposes secrets.'
+    },
+
+    // 7. Credential harvesting
+    {
+        type: 'credential_harvesting',
+        severity: 'critical',
+        pattern: /(?:process\.env|os\.environ|\.ssh|\.aws|credentials|\$[A-Z_]*(?:KEY|TOKEN|SECRET))[^\n]*\b(?:fetch|curl|wget|requests\.(?:post|get|put)|axios|http\.request|urlopen)\b|\b(?:fetch|curl|wget|requests\.(?:post|put)|axios\.post)\b[^\n]*(?:process\.env|os\.environ|\$[A-Z_]*(?:KEY|TOKEN|SECRET))/,
+        description: 'Credentials combined with a network request on the same line',
+        suggestion: 'Check that secrets are only sent to their own service.'
+    },
+    {
+        type: 'credential_harvesting',
+        severity: 'high',
+        pattern: /\b(?:ask|prompt|request)\s+(?:the\s+)?user\s+(?:for|to\s+(?:enter|provide|paste))\s+(?:their\s+|your\s+)?(?:password|api[\s_-]?key|token|credentials|ssh key)/i,
+        description: 'Instructions to collect credentials from the user',
+        suggestion: 'Agents and skills should never ask for secrets; remove the instruction.'
+    },
+
+    // 8. Obfuscated code
+    {
+        type: 'obfuscated_code',
+        severity: 'critical',
+        pattern: /base64\s+(?:-d|--decode|-D)\b[^\n]*\|\s*(?:ba|z)?sh\b|(?:eval|exec|Function)\s*\(\s*(?:atob|Buffer\.from|base64\.b64decode)\s*\(/,
+        description: 'Decoded base64 payload is executed',
+        suggestion: 'Replace the encoded payload with readable source.'
+    },
+    {
+        type: 'obfuscated_code',
+        severity: 'medium',
+        networkSeverity: 'high',
+        pattern: /(?:^|[^A-Za-z0-9+/])[A-Za-z0-9+/]{160,}={0,2}(?:$|[^A-Za-z0-9+/=])/,
+        description: 'Long base64 encoded blob',
+        suggestion: 'Check what the blob decodes to; ship readable content instead.'
+    },
+    {
+        type: 'obfuscated_code',
+        severity: 'high',
+        pattern: /(?:\\x[0-9a-fA-F]{2}){16,}|\bnew\s+Function\s*\(|String\.fromCharCode\((?:\s*\d+\s*,){10,}/,
+        description: 'Hex escapes or runtime-built code hide the real logic',
+        suggestion: 'Replace obfuscated code with readable source.'
+    }
+];
+
+/**
+ * Run the heuristic rules over collected files. Lines are reported 1-based,
+ * like the issues of the Claude CLI audit.
+ */
+export function scanForIssues(files: { file: string; content: string }[]): SecurityIssue[] {
+    const issues: SecurityIssue[] = [];
+
+    for (const { file, content } of files) {
+        const lines = content.split('\n');
+        const hasNetworkSink = NETWORK_SINK.test(content);
+        for (const rule of HEURISTIC_RULES) {
+            let hits = 0;
+            for (let index = 0; index < lines.length && hits < MAX_HITS_PER_RULE; index++) {
+                // Embedded images are data, not payloads
+                const line = lines[index].slice(0, MAX_LINE_LENGTH).replace(/data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=]+/g, 'data:image');
+                const match = line.match(rule.pattern);
+                if (match && !(rule.ignore && rule.ignore.test(match[0]))) {
+                    hits++;
+                    issues.push({
+                        severity: hasNetworkSink && rule.networkSeverity ? rule.networkSeverity : rule.severity,
+                        type: rule.type,
+                        description: rule.description,
+                        file,
+                        line: index + 1,
+                        suggestion: rule.suggestion
+                    });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Status implied by a list of issues
+ */
+export function statusForIssues(issues: SecurityIssue[]): 'safe' | 'warning' | 'danger' {
+    if (issues.some(issue => issue.severity === 'critical' || issue.severity === 'high')) {
+        return 'danger';
+    }
+    return issues.length > 0 ? 'warning' : 'safe';
+}
@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { HookManager, HookItem, HookLocation, HookDefinition, HOOK_EVENTS, TOOL_MATCHER_EVENTS } from './HookManager';
+import { isSameLocation } from './ClaudeAsset';
+
+// Suggestions for the matcher field of tool events
+const MATCHER_SUGGESTIONS = ['Bash', 'Edit|MultiEdit|Write', 'Read', 'Write', 'WebFetch|WebSearch', 'Task', 'mcp__.*', '*'];
+
+/**
+ * Form based editor for adding or editing a single hook
+ */
+export class HookEditorPanel {
+    public static currentPanel: HookEditorPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _hookManager: HookManager;
+    private _hook: HookItem | undefined;
+    private _defaultLocation: HookLocation | undefined;
+    private _onSaved: () => void;
+    private _disposables: vscode.Disposable[] = [];
+
+    /**
+     * Open the editor for an existing hook, or for a new hook when hook is undefined
+     */
+    public static createOrShow(hookManager: HookManager, onSaved: () => void, hook?: HookItem, defaultLocation?: HookLocation) {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (HookEditorPanel.currentPanel) {
+            HookEditorPanel.currentPanel._load(hook, defaultLocation, onSaved);
+            HookEditorPanel.currentPanel._panel.reveal(column);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'claudeHookEditor',
+            'Hook',
+            column || vscode.ViewColumn.One,
+            { enableScripts: true }
+        );
+
+        HookEditorPanel.currentPanel = new HookEditorPanel(panel, hookManager, onSaved);
+        HookEditorPanel.currentPanel._load(hook, defaultLocation, onSaved);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, hookManager: HookManager, onSaved: () => void) {
+        this._panel = panel;
+        this._hookManager = hookManager;
+        this._onSaved = onSaved;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async message => {
+                switch (message.command) {
+                    case 'save':
+                        await this._handleSave(message);
+                        return;
+                    case 'cancel':
+                        this._panel.dispose();
+                        return;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public dispose() {
+        HookEditorPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _load(hook: HookItem | undefined, defaultLocation: HookLocation | undefined, onSaved: () => void) {
+        this._hook = hook;
+        this._defaultLocation = defaultLocation;
+        this._onSaved = onSaved;
+        this._panel.title = hook ? `Hook: ${hook.event}` : 'New Hook';
+        this._panel.webview.html = this._getHtmlForWebview();
+    }
+
+    private async _handleSave(message: any) {
+        const locations = this._hookManager.getHookLocations();
+        const location = locations[Number(message.location)];
+        const event = String(message.event || '');
+        const matcher = String(message.matcher || '').trim();
+        const type = message.type === 'prompt' ? 'prompt' : 'command';
+        const text = String(message.text || '').trim();
+        const timeout = String(message.timeout || '').trim();
+
+        if (!location || !event) {
+            this._sendError('Select a settings file and an event');
+            return;
+        }
+        if (!text) {
+            this._sendError(type === 'prompt' ? 'Prompt cannot be empty' : 'Command cannot be empty');
+            return;
+        }
+        if (timeout && !/^[1-9]\d*$/.test(timeout)) {
+            this._sendError('Timeout must be a positive number of seconds');
+            return;
+        }
+
+        const definition: HookDefinition = type === 'prompt' ? { type, prompt: text } : { type, command: text };
+        if (timeout) {
+            definition.timeout = Number(timeout);
+        }
+
+        try {
+            if (this._hook) {
+                await this._hookManager.updateHook(this._hook, event, matcher, definition);
+            } else {
+                await this._hookManager.addHook(location, event, matcher, definition);
+            }
+            vscode.window.showInformationMessage(`Saved ${event} hook to ${this._hookManager.describeHookLocation(location)} settings`);
+            this._onSaved();
+            this._panel.dispose();
+        } catch (error) {
+            this._sendError(`Failed to save hook: ${error}`);
+        }
+    }
+
+    private _sendError(message: string) {
+        this._panel.webview.postMessage({ command: 'showError', message });
+    }
+
+    private _getHtmlForWebview() {
+        const hook = this._hook;
+        const locations = this._hookManager.getHookLocations();
+        const current: HookLocation | undefined = hook
+            ? { scope: hook.scope, projectFolder: hook.projectFolder, local: hook.local }
+            : this._defaultLocation;
+        const selectedLocation = Math.max(0, locations.findIndex(l =>
+            current !== undefined && isSameLocation(l, current) && !!l.local === !!current.local));
+
+        const locationOptions = locations.map((location, index) =>
+            `<option value="${index}" ${index === selectedLocation ? 'selected' : ''}>` +
+            `${this._escapeHtml(this._hookManager.describeHookLocation(location))} — ${this._escapeHtml(this._hookManager.getSettingsPath(location))}</option>`
+        ).join('');
+
+        const event = hook?.event || 'PreToolUse';
+        const events = HOOK_EVENTS.includes(event) ? HOOK_EVENTS : [...HOOK_EVENTS, event];
+        const eventOptions = events.map(e => `<option value="${e}" ${e === event ? 'selected' : ''}>${e}</option>`).join('');
+        const matcherOptions = MATCHER_SUGGESTIONS.map(m => `<option value="${this._escapeHtml(m)}"></option>`).join('');
+
+        const type = hook?.definition.type || 'command';
+        const text = hook ? (hook.definition.command || hook.definition.prompt || '') : '';
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Hook</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    padding: 16px;
+                    margin: 0;
+                    color: var(--vscode-foreground);
+                    background: var(--vscode-editor-background);
+                    max-width: 720px;
+                }
+
+                h1 {
+                    font-size: 1.4em;
+                    margin: 0 0 16px 0;
+                }
+
+                .field {
+                    margin-bottom: 14px;
+                }
+
+                label {
+                    display: block;
+                    font-weight: 600;
+                    margin-bottom: 4px;
+                }
+
+                .hint {
+                    font-size: 0.85em;
+                    color: var(--vscode-descriptionForeground);
+                    margin-top: 4px;
+                }
+
+                input, select, textarea {
+                    width: 100%;
+                    box-sizing: border-box;
+                    padding: 6px 8px;
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+                    border-radius: 2px;
+                    font-family: inherit;
+                }
+
+                textarea {
+                    font-family: var(--vscode-editor-font-family);
+                    min-height: 100px;
+                }
+
+                .actions {
+                    display: flex;
+                    gap: 8px;
+                    margin-top: 20px;
+                }
+
+                button {
+                    background: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 8px 16px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                }
+
+                button.secondary {
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                }
+
+                .error {
+                    color: var(--vscode-errorForeground);
+                    margin-top: 12px;
+                    min-height: 1em;
+                }
+            </style>
+        </head>
+        <body>
+            <h1>${hook ? 'Edit Hook' : 'New Hook'}</h1>
+
+            <div class="field">
+                <label for="location">Settings file</label>
+                <select id="location" ${hook ? 'disabled' : ''}>${locationOptions}</select>
+                ${hook ? '<div class="hint">Use Move/Copy in the tree to change the settings file.</div>' : ''}
+            </div>
+
+            <div class="field">
+                <label for="event">Event</label>
+                <select id="event" onchange="updateMatcherHint()">${eventOptions}</select>
+            </div>
+
+            <div class="field">
+                <label for="matcher">Matcher</label>
+                <input id="matcher" list="matchers" value="${this._escapeHtml(hook?.matcher || '')}" placeholder="e.g. Bash or Edit|Write (empty matches everything)">
+                <datalist id="matchers">${matcherOptions}</datalist>
+                <div class="hint" id="matcher-hint"></div>
+            </div>
+
+            <div class="field">
+                <label for="type">Type</label>
+                <select id="type" onchange="updateTypeLabel()">
+                    <option value="command" ${type === 'command' ? 'selected' : ''}>command</option>
+                    <option value="prompt" ${type === 'prompt' ? 'selected' : ''}>prompt</option>
+                </select>
+            </div>
+
+            <div class="field">
+                <label for="text" id="text-label">Command</label>
+                <textarea id="text">${this._escapeHtml(text)}</textarea>
+                <div class="hint">The hook input is passed as JSON on stdin.</div>
+            </div>
+
+            <div class="field">
+                <label for="timeout">Timeout (seconds)</label>
+                <input id="timeout" type="number" min="1" value="${hook?.definition.timeout ?? ''}" placeholder="60">
+            </div>
+
+            <div class="actions">
+                <button onclick="save()">Save</button>
+                <button class="secondary" onclick="cancel()">Cancel</button>
+            </div>
+            <div class="error" id="error"></div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const toolEvents = ${JSON.stringify(Array.from(TOOL_MATCHER_EVENTS))};
+
+                function updateMatcherHint() {
+                    const event = document.getElementById('event').value;
+                    document.getElementById('matcher-hint').textContent = toolEvents.includes(event)
+                        ? 'Tool name or regex matched against the tool being used.'
+                        : 'This event does not match on tool names; leave empty unless the event documents its own matchers.';
+                }
+
+                function updateTypeLabel() {
+                    const type = document.getElementById('type').value;
+                    document.getElementById('text-label').textContent = type === 'prompt' ? 'Prompt' : 'Command';
+                }
+
+                function save() {
+                    document.getElementById('error').textContent = '';
+                    vscode.postMessage({
+                        command: 'save',
+                        location: document.getElementById('location').value,
+                        event: document.getElementById('event').value,
+                        matcher: document.getElementById('matcher').value,
+                        type: document.getElementById('type').value,
+                        text: document.getElementById('text').value,
+                        timeout: document.getElementById('timeout').value
+                    });
+                }
+
+                function cancel() {
+                    vscode.postMessage({ command: 'cancel' });
+                }
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.command === 'showError') {
+                        document.getElementById('error').textContent = message.message;
+                    }
+                });
+
+                updateMatcherHint();
+                updateTypeLabel();
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private _escapeHtml(str: string): string {
+        return str
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+}
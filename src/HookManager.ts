@@ -0,0 +1,223 @@
+import { AssetTransferer, ClaudeAsset, TransferMode } from './ClaudeAsset';
+import { SettingsLocation, getSettingsPath, getSettingsLocations, describeSettingsLocation, readSettingsFile } from './SettingsFiles';
+import { runTransaction } from './Transaction';
+
+// Hook events supported by Claude Code, in lifecycle order
+export const HOOK_EVENTS = [
+    'PreToolUse',
+    'PostToolUse',
+    'UserPromptSubmit',
+    'Notification',
+    'Stop',
+    'SubagentStop',
+    'PreCompact',
+    'SessionStart',
+    'SessionEnd'
+];
+
+// Events whose matcher selects tools (other events ignore or use fixed matchers)
+export const TOOL_MATCHER_EVENTS = new Set(['PreToolUse', 'PostToolUse']);
+
+// Hooks can be defined in every settings file
+export type HookLocation = SettingsLocation;
+
+export interface HookDefinition {
+    type: 'command' | 'prompt';
+    command?: string;
+    prompt?: string;
+    timeout?: number;
+}
+
+/**
+ * One hook entry of a settings file. name is the command (or prompt) and
+ * path the settings file it was read from.
+ */
+export interface HookItem extends ClaudeAsset {
+    local?: boolean;
+    event: string;
+    matcher: string;
+    definition: HookDefinition;
+    groupIndex: number;  // index in hooks[event]
+    hookIndex: number;   // index in hooks[event][groupIndex].hooks
+}
+
+interface HookMatcherGroup {
+    matcher?: string;
+    hooks: HookDefinition[];
+}
+
+interface SettingsData {
+    hooks?: Record<string, HookMatcherGroup[]>;
+    [key: string]: unknown;
+}
+
+export class HookManager implements AssetTransferer<HookItem> {
+    constructor() { }
+
+    /**
+     * settings.json of a scope, or settings.local.json for local project hooks
+     */
+    public getSettingsPath(location: HookLocation): string {
+        return getSettingsPath(location);
+    }
+
+    /**
+     * Every place hooks can be defined: user settings and, per workspace
+     * folder, project and local settings
+     */
+    public getHookLocations(): HookLocation[] {
+        return getSettingsLocations();
+    }
+
+    public describeHookLocation(location: HookLocation): string {
+        return describeSettingsLocation(location);
+    }
+
+    public async getHooks(): Promise<HookItem[]> {
+        const hooks: HookItem[] = [];
+
+        for (const location of this.getHookLocations()) {
+            const settingsPath = this.getSettingsPath(location);
+            const settings = this.readSettings(settingsPath);
+            if (!settings?.hooks || typeof settings.hooks !== 'object') {
+                continue;
+            }
+
+            for (const [event, groups] of Object.entries(settings.hooks)) {
+                if (!Array.isArray(groups)) {
+                    continue;
+                }
+                groups.forEach((group, groupIndex) => {
+                    (Array.isArray(group?.hooks) ? group.hooks : []).forEach((definition, hookIndex) => {
+                        hooks.push({
+                            name: definition.command || definition.prompt || definition.type,
+                            path: settingsPath,
+                            scope: location.scope,
+                            projectFolder: location.projectFolder,
+                            local: location.local,
+                            event,
+                            matcher: group.matcher || '',
+                            definition,
+                            groupIndex,
+                            hookIndex
+                        });
+                    });
+                });
+            }
+        }
+
+        return hooks;
+    }
+
+    public async addHook(location: HookLocation, event: string, matcher: string, definition: HookDefinition): Promise<void> {
+        const settingsPath = this.getSettingsPath(location);
+        await runTransaction(tx => {
+            const settings = this.readSettings(settingsPath, true) || {};
+            this.insertHook(settings, event, matcher, definition);
+            tx.writeJson(settingsPath, settings);
+        });
+    }
+
+    /**
+     * Replace a hook. A changed event or matcher moves it to the matching group.
+     */
+    public async updateHook(item: HookItem, event: string, matcher: string, definition: HookDefinition): Promise<void> {
+        await runTransaction(tx => {
+            const settings = this.readSettings(item.path, true) || {};
+            if (event === item.event && matcher === item.matcher) {
+                this.findGroup(settings, item).hooks[item.hookIndex] = definition;
+            } else {
+                this.removeFromSettings(settings, item);
+                this.insertHook(settings, event, matcher, definition);
+            }
+            tx.writeJson(item.path, settings);
+        });
+    }
+
+    public async deleteHook(item: HookItem): Promise<void> {
+        await runTransaction(tx => {
+            const settings = this.readSettings(item.path, true) || {};
+            this.removeFromSettings(settings, item);
+            tx.writeJson(item.path, settings);
+        });
+    }
+
+    /**
+     * Copy or move a hook to another settings file. Both files are written in
+     * one transaction.
+     */
+    public async transfer(item: HookItem, target: HookLocation, mode: TransferMode): Promise<void> {
+        const targetPath = this.getSettingsPath(target);
+        if (targetPath === item.path) { return; }
+
+        await runTransaction(tx => {
+            const targetSettings = this.readSettings(targetPath, true) || {};
+            const duplicate = (targetSettings.hooks?.[item.event] || []).some(group =>
+                (group.matcher || '') === item.matcher &&
+                (group.hooks || []).some(h => h.type === item.definition.type && h.command === item.definition.command && h.prompt === item.definition.prompt));
+            if (duplicate) {
+                throw new Error(`Hook already exists in ${this.describeHookLocation(target)} settings`);
+            }
+
+            this.insertHook(targetSettings, item.event, item.matcher, item.definition);
+            tx.writeJson(targetPath, targetSettings);
+
+            if (mode === 'move') {
+                const sourceSettings = this.readSettings(item.path, true) || {};
+                this.removeFromSettings(sourceSettings, item);
+                tx.writeJson(item.path, sourceSettings);
+            }
+        });
+    }
+
+    private insertHook(settings: SettingsData, event: string, matcher: string, definition: HookDefinition): void {
+        settings.hooks = settings.hooks || {};
+        const groups = settings.hooks[event] = settings.hooks[event] || [];
+        let group = groups.find(g => (g.matcher || '') === matcher);
+        if (!group) {
+            group = matcher ? { matcher, hooks: [] } : { hooks: [] };
+            groups.push(group);
+        }
+        group.hooks.push(definition);
+    }
+
+    /**
+     * Matcher group of a hook, after checking the hook at its index is still
+     * the one that was listed
+     */
+    private findGroup(settings: SettingsData, item: HookItem): HookMatcherGroup {
+        const group = settings.hooks?.[item.event]?.[item.groupIndex];
+        const hook = group?.hooks?.[item.hookIndex];
+        if (!group || (group.matcher || '') !== item.matcher || !hook || !this.isSameHook(hook, item.definition)) {
+            throw new Error('Hook was changed on disk; refresh and try again');
+        }
+        return group;
+    }
+
+    private isSameHook(a: HookDefinition, b: HookDefinition): boolean {
+        return a.type === b.type && a.command === b.command && a.prompt === b.prompt && a.timeout === b.timeout;
+    }
+
+    /**
+     * Remove a hook and drop matcher groups and events left empty
+     */
+    private removeFromSettings(settings: SettingsData, item: HookItem): void {
+        const group = this.findGroup(settings, item);
+        group.hooks.splice(item.hookIndex, 1);
+
+        const groups = settings.hooks![item.event];
+        if (group.hooks.length === 0) {
+            groups.splice(item.groupIndex, 1);
+        }
+        if (groups.length === 0) {
+            delete settings.hooks![item.event];
+        }
+        if (Object.keys(settings.hooks!).length === 0) {
+            delete settings.hooks;
+        }
+    }
+
+    private readSettings(filePath: string, strict = false): SettingsData | null {
+        return readSettingsFile<SettingsData>(filePath, strict);
+    }
+}
@@ -4,6 +4,7 @@ import * as path from 'path';
 import { SkillItem, SkillManager } from './SkillManager';
 import { SmartInstaller } from './SmartInstaller';
 import { getFavoritesManager, FavoriteItem } from './FavoritesManager';
+import { ProjectRoot, getProjectRoots, getProjectRoot, pickProjectRoot } from './WorkspacePaths';
 
 interface ExportData {
     version: number;
@@ -16,6 +17,7 @@ interface ExportedSkill {
     name: string;
     type: 'skill' | 'agent';
     scope: 'user' | 'project' | 'global';  // 'global' kept for backward compatibility
+    projectFolder?: string;  // workspace folder name of project skills
     url?: string;
     path: string;
 }
@@ -56,6 +58,7 @@ export class ImportExport {
                     name: skill.name,
                     type: skill.type,
                     scope: skill.scope,
+                    projectFolder: getProjectRoot(skill.projectFolder)?.folder.name,
                     url,
                     path: skill.path
                 };
@@ -149,6 +152,18 @@ export class ImportExport {
                     );
 
                     if (confirm === 'Import') {
+                        // Project skills go to the workspace folder of the same name,
+                        // otherwise to a folder picked once for the whole import
+                        let fallbackRoot: ProjectRoot | undefined;
+                        const needsPick = skillsWithUrls.some(s => s.scope === 'project' &&
+                            !getProjectRoots().some(root => root.folder.name === s.projectFolder));
+                        if (needsPick && getProjectRoots().length > 0) {
+                            fallbackRoot = await pickProjectRoot('Select workspace folder for imported project skills');
+                            if (!fallbackRoot) {
+                                return;
+                            }
+                        }
+
                         await vscode.window.withProgress({
                             location: vscode.ProgressLocation.Notification,
                             title: 'Importing skills...',
@@ -168,7 +183,8 @@ export class ImportExport {
                                         parsed.skillType = skill.type;
                                         // Map 'global' to 'user' for backward compatibility
                                         const scope = skill.scope === 'global' ? 'user' : skill.scope as 'user' | 'project';
-                                        const result = await this.smartInstaller.install(parsed, scope);
+                                        const root = getProjectRoots().find(r => r.folder.name === skill.projectFolder) || fallbackRoot;
+                                        const result = await this.smartInstaller.install(parsed, scope, root?.folder.uri.fsPath);
                                         if (result.success) {
                                             skillsImported++;
                                         } else {
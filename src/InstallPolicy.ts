@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssetLocation, USER_LOCATION, getScopeRoot } from './ClaudeAsset';
+import { AuditResult, SecurityIssue } from './SecurityAuditor';
+
+export const POLICY_FILE = 'assist-policy.json';
+
+/**
+ * Team install rules from .claude/assist-policy.json. Every field is optional.
+ */
+export interface InstallPolicy {
+    blockedSeverities?: SecurityIssue['severity'][];  // findings of these severities block installs
+    allowedSourceOwners?: string[];                    // GitHub owners installs may come from
+    bannedIssueTypes?: string[];                       // finding types that block installs
+    requireAudit?: boolean;                            // never install without a pre-install audit
+}
+
+/**
+ * The policy that applies to a location, with the files it came from
+ */
+export interface EffectivePolicy extends InstallPolicy {
+    sources: string[];
+}
+
+export function getPolicyPath(location: AssetLocation): string {
+    return path.join(getScopeRoot(location), POLICY_FILE);
+}
+
+const SEVERITIES: SecurityIssue['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+function readPolicyFile(filePath: string): InstallPolicy | null {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    let policy: unknown;
+    try {
+        policy = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        // A broken policy must not silently allow everything
+        throw new Error(`Cannot parse install policy ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    const problem = validatePolicy(policy);
+    if (problem) {
+        throw new Error(`Invalid install policy ${filePath}: ${problem}`);
+    }
+    return policy as InstallPolicy;
+}
+
+/**
+ * What is wrong with a parsed policy file, or undefined when it is valid.
+ * A misspelled key or a string instead of a list would otherwise block nothing.
+ */
+function validatePolicy(policy: unknown): string | undefined {
+    if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+        return 'expected a JSON object';
+    }
+    const isStringList = (value: unknown): value is string[] =>
+        Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+    for (const [key, value] of Object.entries(policy)) {
+        switch (key) {
+            case 'blockedSeverities':
+                if (!isStringList(value) || value.some(severity => !SEVERITIES.includes(severity as SecurityIssue['severity']))) {
+                    return `"blockedSeverities" must be a list of ${SEVERITIES.map(severity => `"${severity}"`).join(', ')}`;
+                }
+                break;
+            case 'allowedSourceOwners':
+            case 'bannedIssueTypes':
+                if (!isStringList(value)) {
+                    return `"${key}" must be a list of strings`;
+                }
+                break;
+            case 'requireAudit':
+                if (typeof value !== 'boolean') {
+                    return '"requireAudit" must be true or false';
+                }
+                break;
+            case '$schema':
+                break;
+            default:
+                return `unknown key "${key}"`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Combine the user policy with the project policy for project installs.
+ * The stricter layer always wins: blocked severities and banned types add up,
+ * requireAudit holds if either file sets it, and only owners allowed by both
+ * files are allowed.
+ */
+export function getEffectivePolicy(location: AssetLocation): EffectivePolicy {
+    const locations = location.scope === 'project' ? [USER_LOCATION, location] : [USER_LOCATION];
+    const effective: EffectivePolicy = { sources: [] };
+
+    for (const policyLocation of locations) {
+        const filePath = getPolicyPath(policyLocation);
+        const policy = readPolicyFile(filePath);
+        if (!policy) {
+            continue;
+        }
+        effective.sources.push(filePath);
+        if (policy.blockedSeverities) {
+            effective.blockedSeverities = [...new Set([...(effective.blockedSeverities || []), ...policy.blockedSeverities])];
+        }
+        if (policy.bannedIssueTypes) {
+            effective.bannedIssueTypes = [...new Set([...(effective.bannedIssueTypes || []), ...policy.bannedIssueTypes])];
+        }
+        if (policy.allowedSourceOwners) {
+            const previous = effective.allowedSourceOwners;
+            effective.allowedSourceOwners = previous
+                ? policy.allowedSourceOwners.filter(owner => previous.some(allowed => allowed.toLowerCase() === owner.toLowerCase()))
+                : policy.allowedSourceOwners;
+        }
+        if (policy.requireAudit) {
+            effective.requireAudit = true;
+        }
+    }
+
+    return effective;
+}
+
+/**
+ * Whether installs need a pre-install audit. Blocked severities and banned
+ * types can only be enforced on an audit, so they force one like requireAudit.
+ */
+export function policyRequiresAudit(policy: EffectivePolicy): boolean {
+    return !!policy.requireAudit || !!policy.blockedSeverities?.length || !!policy.bannedIssueTypes?.length;
+}
+
+/**
+ * Violation message when the source owner is not allowed, otherwise undefined
+ */
+export function checkSourceOwner(policy: EffectivePolicy, owner: string | undefined): string | undefined {
+    if (!policy.allowedSourceOwners) {
+        return undefined;
+    }
+    if (!owner) {
+        return 'the source owner cannot be determined and allowedSourceOwners is set';
+    }
+    const allowed = policy.allowedSourceOwners.some(allowedOwner => allowedOwner.toLowerCase() === owner.toLowerCase());
+    return allowed ? undefined : `source owner "${owner}" is not in allowedSourceOwners`;
+}
+
+/**
+ * Owner of a github.com, raw.githubusercontent.com or gist URL
+ */
+export function getGitHubOwner(url: string): string | undefined {
+    const match = url.match(/^https?:\/\/(?:www\.)?(?:github\.com|raw\.githubusercontent\.com|gist\.github\.com)\/([^/]+)/i);
+    return match?.[1];
+}
+
+/**
+ * Violation messages for an audit of content about to be installed
+ */
+export function checkAuditResult(policy: EffectivePolicy, result: AuditResult): string[] {
+    const violations: string[] = [];
+
+    if (policyRequiresAudit(policy) && result.status === 'error') {
+        violations.push('the required audit did not complete');
+    }
+
+    const blockedSeverities = policy.blockedSeverities || [];
+    const bannedTypes = policy.bannedIssueTypes || [];
+    for (const issue of result.issues) {
+        if (issue.type === 'audit_error') {
+            continue;
+        }
+        const location = issue.file ? ` (${issue.file}${issue.line ? `:${issue.line}` : ''})` : '';
+        if (blockedSeverities.includes(issue.severity)) {
+            violations.push(`${issue.severity} finding ${issue.type}${location}`);
+        } else if (bannedTypes.includes(issue.type)) {
+            violations.push(`banned finding type ${issue.type}${location}`);
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Sentence for an error message about blocked content
+ */
+export function describeViolations(policy: EffectivePolicy, violations: string[]): string {
+    const shown = violations.slice(0, 3).join('; ');
+    const more = violations.length > 3 ? ` and ${violations.length - 3} more` : '';
+    return `Blocked by install policy (${policy.sources.join(', ')}): ${shown}${more}`;
+}
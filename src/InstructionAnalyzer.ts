@@ -0,0 +1,255 @@
+import { SecurityIssue } from './SecurityAuditor';
+
+/**
+ * A pattern in the natural-language instructions of a skill, agent or
+ * command. Patterns run over the whole file so they can span lines.
+ */
+interface InstructionRule {
+    type: string;
+    severity: SecurityIssue['severity'];
+    pattern: RegExp;  // must be global; group 1, when present, is the reported span
+    // Further check of a match, with the text before it on its line
+    accept?: (match: string, before: string) => boolean;
+    inCode?: boolean;  // also match inside code spans and fences
+    description: string;
+    suggestion: string;
+}
+
+// Report at most this many hits of one rule per file
+const MAX_HITS_PER_RULE = 5;
+
+// Negations that turn an instruction into a warning ("never use ...")
+const NEGATED = /\b(?:never|not|don't|dont|avoid|without|instead\s+of)\b/i;
+// Line text that asks for the permission flag: an imperative verb, a claude command line or a defaultMode setting
+const ASKS_FOR_FLAG = /(?:^|[.!?:]\s+|\b(?:always|must|should|please|then|to)\s+)(?:run|use|start|launch|invoke|pass|add|enable|set|switch\s+to|execute)\b|^\s*(?:\$\s*)?claude\b|defaultMode["'`]?\s*[:=]\s*["'`]?$/i;
+
+const INSTRUCTION_RULES: InstructionRule[] = [
+    // Attempts to override the system prompt or earlier instructions
+    {
+        type: 'prompt_injection',
+        severity: 'high',
+        pattern: /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|preceding|original|system)\s+(?:instructions?|prompts?|rules|directions|guidelines|context)/gi,
+        description: 'Instruction to ignore earlier or system instructions',
+        suggestion: 'Skills should add instructions, never cancel the ones Claude already follows. Remove the sentence.'
+    },
+    {
+        type: 'prompt_injection',
+        severity: 'high',
+        pattern: /\byou\s+are\s+(?:now\s+)?(?:in\s+)?(?:DAN|developer\s+mode|jailbroken|unrestricted|no\s+longer\s+bound)\b|\b(?:new|updated|real)\s+system\s+prompt\s*:/gi,
+        description: 'Attempt to replace the assistant role or system prompt',
+        suggestion: 'Remove the role override; it is a known jailbreak pattern.'
+    },
+    {
+        type: 'prompt_injection',
+        severity: 'medium',
+        pattern: /\b(?:do\s+not|don't|never)\s+(?:tell|inform|show|mention\s+(?:this\s+)?to|reveal\s+(?:this\s+)?to)\s+the\s+user\b|\bwithout\s+(?:asking|telling|notifying|informing)\s+the\s+user\b/gi,
+        description: 'Instruction to act without the user knowing',
+        suggestion: 'Instructions should never hide actions from the user; remove or rephrase.'
+    },
+
+    // Permission bypass. Only instructions count: documentation that warns
+    // against the flag or mentions it in passing is fine.
+    {
+        type: 'permission_bypass',
+        severity: 'critical',
+        pattern: /--dangerously-skip-permissions\b|\bbypassPermissions\b/g,
+        accept: (_, before) => ASKS_FOR_FLAG.test(before) && !NEGATED.test(before),
+        inCode: true,
+        description: 'Runs Claude Code with permission checks disabled',
+        suggestion: 'Never instruct Claude to skip permission prompts; remove the flag or mode.'
+    },
+    {
+        type: 'permission_bypass',
+        severity: 'high',
+        // An imperative at the start of a sentence or list item, optionally after "you must", "always" and the like
+        pattern: /(?:^|[.!?:]\s+)[ \t]*(?:[-*+][ \t]+|\d+[.)][ \t]+)?((?:(?:you\s+(?:should|must|can|may)|always|please|now|first|then)\s+)?(?:disable|turn\s+off|skip|bypass|ignore)\s+(?:all\s+|any\s+)?(?:the\s+)?(?:permission|safety|security|sandbox)\s+(?:checks?|prompts?|restrictions?|rules|mode|confirmations?|warnings?)\b)/gim,
+        description: 'Instruction to disable permission or safety checks',
+        suggestion: 'Remove the instruction; request only the tools the skill needs in allowed-tools.'
+    },
+
+    // Content hidden from someone reading the rendered markdown
+    {
+        type: 'hidden_instructions',
+        severity: 'medium',
+        pattern: /<!--[\s\S]*?-->/g,
+        // Licence headers and editor notes are fine; comments that instruct are not
+        accept: comment => /\b(?:ignore|instructions?|always|never|must|run|execute|curl|wget|bash|send|upload|token|password|secret|assistant|claude)\b/i.test(comment),
+        description: 'HTML comment with instructions, invisible in rendered markdown',
+        suggestion: 'Move the text out of the comment so readers can see it, or delete it.'
+    },
+    {
+        type: 'hidden_instructions',
+        severity: 'medium',
+        pattern: /<(?:div|span|p|details)\b[^>]*(?:\bhidden\b|display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0)[^>]*>/gi,
+        description: 'HTML element hidden from rendered markdown',
+        suggestion: 'Remove hidden content; instructions must be visible to reviewers.'
+    }
+];
+
+// Zero-width characters and the word joiner; a BOM at the start of a file is fine
+const ZERO_WIDTH = /[\u200B\u200C\u200D\u2060\u180E]|(?!^)\uFEFF/g;
+// Unicode tag characters can spell out invisible ASCII text
+const TAG_CHARACTERS = /[\u{E0000}-\u{E007F}]/gu;
+// Embeddings, overrides and isolates that reorder displayed text
+const BIDI_CONTROLS = /[\u202A-\u202E\u2066-\u2069]/g;
+
+const CHARACTER_RULES: (InstructionRule & { name: string })[] = [
+    {
+        type: 'invisible_characters',
+        severity: 'high',
+        pattern: TAG_CHARACTERS,
+        name: 'Unicode tag character',
+        description: 'Unicode tag characters hide text that Claude reads but editors do not show',
+        suggestion: 'Delete the characters and check what text they encoded.'
+    },
+    {
+        type: 'invisible_characters',
+        severity: 'medium',
+        pattern: ZERO_WIDTH,
+        name: 'zero-width character',
+        description: 'Zero-width characters can hide or split words from reviewers',
+        suggestion: 'Delete the characters; plain instructions do not need them.'
+    },
+    {
+        type: 'bidi_override',
+        severity: 'high',
+        pattern: BIDI_CONTROLS,
+        name: 'bidirectional control character',
+        description: 'Bidirectional control characters make text display differently from how it is read',
+        suggestion: 'Delete the characters and review the line as Claude reads it.'
+    }
+];
+
+/**
+ * Offsets of line starts, for turning a match index into line and column
+ */
+function lineStarts(content: string): number[] {
+    const starts = [0];
+    for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+        starts.push(index + 1);
+    }
+    return starts;
+}
+
+/**
+ * 1-based line and column of an offset
+ */
+function locate(starts: number[], offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (starts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return { line: low + 1, column: offset - starts[low] + 1 };
+}
+
+/**
+ * Blank out fenced code blocks and inline code, keeping offsets and line
+ * breaks, so examples and documentation of bad patterns are not instructions
+ */
+function maskCode(content: string): string {
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+    const lines = content.split('\n');
+    let fence: string | undefined;
+    const masked = lines.map(line => {
+        const marker = line.match(/^ {0,3}(`{3,}|~{3,})/);
+        if (fence) {
+            if (marker && marker[1][0] === fence[0] && marker[1].length >= fence.length) {
+                fence = undefined;
+            }
+            return blank(line);
+        }
+        if (marker) {
+            fence = marker[1];
+            return blank(line);
+        }
+        return line.replace(/(`+)[^`\n][\s\S]*?\1/g, blank);
+    });
+    return masked.join('\n');
+}
+
+/**
+ * Analyze the markdown files among collected files for prompt injection,
+ * permission bypass and hidden text. Issues carry 1-based line and column.
+ */
+export function scanInstructions(files: { file: string; content: string }[]): SecurityIssue[] {
+    const issues: SecurityIssue[] = [];
+
+    for (const { file, content } of files) {
+        if (!/\.md$/i.test(file)) {
+            continue;
+        }
+        const starts = lineStarts(content);
+        const prose = maskCode(content);
+
+        for (const rule of INSTRUCTION_RULES) {
+            const text = rule.inCode ? content : prose;
+            let hits = 0;
+            rule.pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = rule.pattern.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    rule.pattern.lastIndex++;
+                    continue;
+                }
+                const reported = match[1] ?? match[0];
+                const offset = match.index + match[0].lastIndexOf(reported);
+                const before = text.slice(text.lastIndexOf('\n', offset - 1) + 1, offset);
+                if (rule.accept && !rule.accept(reported, before)) {
+                    continue;
+                }
+                if (hits++ >= MAX_HITS_PER_RULE) {
+                    break;
+                }
+                const start = locate(starts, offset);
+                const firstLine = reported.split('\n')[0];
+                issues.push({
+                    severity: rule.severity,
+                    type: rule.type,
+                    description: `${rule.description}: "${reported.replace(/\s+/g, ' ').trim().slice(0, 80)}"`,
+                    file,
+                    line: start.line,
+                    column: start.column,
+                    endColumn: start.column + firstLine.length,
+                    suggestion: rule.suggestion
+                });
+            }
+        }
+
+        // Invisible characters are reported once per line with their count
+        for (const rule of CHARACTER_RULES) {
+            const byLine = new Map<number, { column: number; length: number; count: number; codePoint: number }>();
+            rule.pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = rule.pattern.exec(content)) !== null) {
+                const { line, column } = locate(starts, match.index);
+                const hit = byLine.get(line);
+                if (hit) {
+                    hit.count++;
+                } else {
+                    byLine.set(line, { column, length: match[0].length, count: 1, codePoint: match[0].codePointAt(0)! });
+                }
+            }
+            for (const [line, hit] of Array.from(byLine).slice(0, MAX_HITS_PER_RULE)) {
+                const codePoint = `U+${hit.codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+                issues.push({
+                    severity: rule.severity,
+                    type: rule.type,
+                    description: `${rule.description} (${hit.count} ${rule.name}${hit.count !== 1 ? 's' : ''}, first ${codePoint})`,
+                    file,
+                    line,
+                    column: hit.column,
+                    endColumn: hit.column + hit.length,
+                    suggestion: rule.suggestion
+                });
+            }
+        }
+    }
+
+    return issues;
+}
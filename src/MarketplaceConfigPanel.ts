@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
 import { MarketplaceManager, MarketplaceSource } from './MarketplaceManager';
+import { getProjectRoots, getProjectLabel, pickProjectRoot } from './WorkspacePaths';
+import { USER_LOCATION, projectLocation, describeLocation } from './ClaudeAsset';
+import { showDeletedNotification } from './TrashManager';
 
 export class MarketplaceConfigPanel {
     public static currentPanel: MarketplaceConfigPanel | undefined;
@@ -9,6 +12,13 @@ export class MarketplaceConfigPanel {
     private _disposables: vscode.Disposable[] = [];
     private _marketplaces: MarketplaceSource[] = [];
 
+    /**
+     * Reload the marketplace list if the panel is open (e.g. after a restore from Recently Deleted)
+     */
+    public static refreshIfOpen() {
+        MarketplaceConfigPanel.currentPanel?._refresh();
+    }
+
     public static createOrShow(extensionUri: vscode.Uri, marketplaceManager: MarketplaceManager) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
@@ -51,16 +61,19 @@ export class MarketplaceConfigPanel {
                         await this._handleAddMarketplace();
                         return;
                     case 'removeMarketplace':
-                        await this._handleRemoveMarketplace(message.name, message.scope);
+                        await this._handleRemoveMarketplace(message.name, message.scope, message.projectFolder);
                         return;
                     case 'refreshMarketplace':
-                        await this._handleRefreshMarketplace(message.name, message.scope);
+                        await this._handleRefreshMarketplace(message.name, message.scope, message.projectFolder);
+                        return;
+                    case 'auditMarketplace':
+                        await this._handleAuditMarketplace(message.name, message.scope, message.projectFolder);
                         return;
                     case 'moveToUser':
-                        await this._handleMoveToUser(message.name, message.scope);
+                        await this._handleMoveToUser(message.name, message.scope, message.projectFolder);
                         return;
                     case 'moveToProject':
-                        await this._handleMoveToProject(message.name, message.scope);
+                        await this._handleMoveToProject(message.name, message.scope, message.projectFolder);
                         return;
                 }
             },
@@ -149,9 +162,15 @@ export class MarketplaceConfigPanel {
         if (!scope) { return; }
 
         const targetScope = scope.toLowerCase() as 'user' | 'project';
+        let projectFolder: string | undefined;
+        if (targetScope === 'project') {
+            const root = await pickProjectRoot();
+            if (!root) { return; }
+            projectFolder = root.folder.uri.fsPath;
+        }
 
         try {
-            await this._marketplaceManager.addMarketplace(name, repo, targetScope);
+            await this._marketplaceManager.addMarketplace(name, repo, targetScope, projectFolder);
             this._sendSuccess(`Added marketplace "${name}"`);
             await this._refresh();
         } catch (error) {
@@ -159,7 +178,7 @@ export class MarketplaceConfigPanel {
         }
     }
 
-    private async _handleRemoveMarketplace(name: string, scope: 'user' | 'project') {
+    private async _handleRemoveMarketplace(name: string, scope: 'user' | 'project', projectFolder?: string) {
         const answer = await vscode.window.showWarningMessage(
             `Are you sure you want to remove marketplace "${name}"?`,
             { modal: true },
@@ -169,17 +188,27 @@ export class MarketplaceConfigPanel {
         if (answer !== 'Yes') { return; }
 
         try {
-            await this._marketplaceManager.removeMarketplace(name, scope);
-            this._sendSuccess(`Removed marketplace "${name}"`);
+            const trashEntry = await this._marketplaceManager.removeMarketplace(name, scope, projectFolder);
+            this._panel.webview.postMessage({ command: 'showSuccess', message: `Removed marketplace "${name}"` });
             await this._refresh();
+            showDeletedNotification(trashEntry, `Removed marketplace "${name}"`, () => this._refresh());
         } catch (error) {
             this._sendError(`Failed to remove marketplace: ${error}`);
         }
     }
 
-    private async _handleRefreshMarketplace(name: string, scope: 'user' | 'project') {
+    private async _handleAuditMarketplace(name: string, scope: 'user' | 'project', projectFolder?: string) {
+        const marketplace = this._marketplaces.find(m => m.name === name && m.scope === scope && (m.projectFolder || undefined) === projectFolder);
+        if (!marketplace) {
+            this._sendError(`Marketplace "${name}" not found`);
+            return;
+        }
+        await vscode.commands.executeCommand('claude-code-assist.auditMarketplace', marketplace);
+    }
+
+    private async _handleRefreshMarketplace(name: string, scope: 'user' | 'project', projectFolder?: string) {
         try {
-            await this._marketplaceManager.refreshMarketplace(name, scope);
+            await this._marketplaceManager.refreshMarketplace(name, scope, projectFolder);
             this._sendSuccess(`Refreshed marketplace "${name}"`);
             await this._refresh();
         } catch (error) {
@@ -187,7 +216,7 @@ export class MarketplaceConfigPanel {
         }
     }
 
-    private async _handleMoveToUser(name: string, scope: 'user' | 'project') {
+    private async _handleMoveToUser(name: string, scope: 'user' | 'project', projectFolder?: string) {
         if (scope === 'user') { return; }
 
         const action = await vscode.window.showQuickPick(['Copy to User', 'Move to User'], {
@@ -196,7 +225,7 @@ export class MarketplaceConfigPanel {
 
         if (!action) { return; }
 
-        const marketplace = this._marketplaces.find(m => m.name === name && m.scope === scope);
+        const marketplace = this._marketplaces.find(m => m.name === name && m.scope === scope && m.projectFolder === projectFolder);
         if (!marketplace) {
             this._sendError(`Marketplace "${name}" not found`);
             return;
@@ -204,10 +233,10 @@ export class MarketplaceConfigPanel {
 
         try {
             if (action === 'Move to User') {
-                await this._marketplaceManager.moveToUser(marketplace);
+                await this._marketplaceManager.transfer(marketplace, USER_LOCATION, 'move');
                 this._sendSuccess(`Moved "${name}" to User scope`);
             } else {
-                await this._marketplaceManager.copyToUser(marketplace);
+                await this._marketplaceManager.transfer(marketplace, USER_LOCATION, 'copy');
                 this._sendSuccess(`Copied "${name}" to User scope`);
             }
             await this._refresh();
@@ -216,7 +245,7 @@ export class MarketplaceConfigPanel {
         }
     }
 
-    private async _handleMoveToProject(name: string, scope: 'user' | 'project') {
+    private async _handleMoveToProject(name: string, scope: 'user' | 'project', projectFolder?: string) {
         if (scope === 'project') { return; }
 
         const action = await vscode.window.showQuickPick(['Copy to Project', 'Move to Project'], {
@@ -225,19 +254,23 @@ export class MarketplaceConfigPanel {
 
         if (!action) { return; }
 
-        const marketplace = this._marketplaces.find(m => m.name === name && m.scope === scope);
+        const marketplace = this._marketplaces.find(m => m.name === name && m.scope === scope && m.projectFolder === projectFolder);
         if (!marketplace) {
             this._sendError(`Marketplace "${name}" not found`);
             return;
         }
 
         try {
+            const root = await pickProjectRoot();
+            if (!root) { return; }
+            const target = projectLocation(root);
+
             if (action === 'Move to Project') {
-                await this._marketplaceManager.moveToProject(marketplace);
-                this._sendSuccess(`Moved "${name}" to Project scope`);
+                await this._marketplaceManager.transfer(marketplace, target, 'move');
+                this._sendSuccess(`Moved "${name}" to ${describeLocation(target)} scope`);
             } else {
-                await this._marketplaceManager.copyToProject(marketplace);
-                this._sendSuccess(`Copied "${name}" to Project scope`);
+                await this._marketplaceManager.transfer(marketplace, target, 'copy');
+                this._sendSuccess(`Copied "${name}" to ${describeLocation(target)} scope`);
             }
             await this._refresh();
         } catch (error) {
@@ -249,6 +282,7 @@ export class MarketplaceConfigPanel {
         const userMarketplaces = this._marketplaces.filter(m => m.scope === 'user');
         const projectMarketplaces = this._marketplaces.filter(m => m.scope === 'project');
         const hasWorkspace = vscode.workspace.workspaceFolders !== undefined;
+        const multiRoot = getProjectRoots().length > 1;
 
         const formatDate = (dateStr: string) => {
             try {
@@ -261,9 +295,13 @@ export class MarketplaceConfigPanel {
 
         const renderMarketplaceCard = (m: MarketplaceSource) => {
             const repo = m.source.repo || m.source.url || 'Unknown source';
+            const args = `'${this._escapeJs(m.name)}', '${m.scope}', '${this._escapeJs(m.projectFolder || '')}'`;
             const moveButton = m.scope === 'user'
-                ? `<button class="action-btn move-btn" onclick="moveToProject('${this._escapeJs(m.name)}', '${m.scope}')" title="Move to Project" ${!hasWorkspace ? 'disabled' : ''}>&#8595;</button>`
-                : `<button class="action-btn move-btn" onclick="moveToUser('${this._escapeJs(m.name)}', '${m.scope}')" title="Move to User">&#8593;</button>`;
+                ? `<button class="action-btn move-btn" onclick="moveToProject(${args})" title="Move to Project" ${!hasWorkspace ? 'disabled' : ''}>&#8595;</button>`
+                : `<button class="action-btn move-btn" onclick="moveToUser(${args})" title="Move to User">&#8593;</button>`;
+            const folderLabel = m.scope === 'project' && multiRoot
+                ? `<span class="card-date">${this._escapeHtml(getProjectLabel(m.projectFolder))}</span><br>`
+                : '';
 
             return `
                 <div class="marketplace-card">
@@ -275,12 +313,13 @@ export class MarketplaceConfigPanel {
                         </div>
                     </div>
                     <div class="card-meta">
-                        <span class="card-date">Updated: ${formatDate(m.lastUpdated)}</span>
+                        ${folderLabel}<span class="card-date">Updated: ${formatDate(m.lastUpdated)}</span>
                     </div>
                     <div class="card-actions">
                         ${moveButton}
-                        <button class="action-btn refresh-btn" onclick="refreshMarketplace('${this._escapeJs(m.name)}', '${m.scope}')" title="Refresh">&#8635;</button>
-                        <button class="action-btn delete-btn" onclick="removeMarketplace('${this._escapeJs(m.name)}', '${m.scope}')" title="Delete">&#128465;</button>
+                        <button class="action-btn audit-btn" onclick="auditMarketplace(${args})" title="Security Audit">&#128737;</button>
+                        <button class="action-btn refresh-btn" onclick="refreshMarketplace(${args})" title="Refresh">&#8635;</button>
+                        <button class="action-btn delete-btn" onclick="removeMarketplace(${args})" title="Delete">&#128465;</button>
                     </div>
                 </div>
             `;
@@ -571,20 +610,24 @@ export class MarketplaceConfigPanel {
                     vscode.postMessage({ command: 'addMarketplace' });
                 }
 
-                function removeMarketplace(name, scope) {
-                    vscode.postMessage({ command: 'removeMarketplace', name, scope });
+                function removeMarketplace(name, scope, projectFolder) {
+                    vscode.postMessage({ command: 'removeMarketplace', name, scope, projectFolder: projectFolder || undefined });
+                }
+
+                function refreshMarketplace(name, scope, projectFolder) {
+                    vscode.postMessage({ command: 'refreshMarketplace', name, scope, projectFolder: projectFolder || undefined });
                 }
 
-                function refreshMarketplace(name, scope) {
-                    vscode.postMessage({ command: 'refreshMarketplace', name, scope });
+                function auditMarketplace(name, scope, projectFolder) {
+                    vscode.postMessage({ command: 'auditMarketplace', name, scope, projectFolder: projectFolder || undefined });
                 }
 
-                function moveToUser(name, scope) {
-                    vscode.postMessage({ command: 'moveToUser', name, scope });
+                function moveToUser(name, scope, projectFolder) {
+                    vscode.postMessage({ command: 'moveToUser', name, scope, projectFolder: projectFolder || undefined });
                 }
 
-                function moveToProject(name, scope) {
-                    vscode.postMessage({ command: 'moveToProject', name, scope });
+                function moveToProject(name, scope, projectFolder) {
+                    vscode.postMessage({ command: 'moveToProject', name, scope, projectFolder: projectFolder || undefined });
                 }
 
                 function showToast(message, type) {
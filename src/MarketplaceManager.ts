@@ -1,9 +1,11 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { AssetLocation, AssetTransferer, TransferMode, removePath, getAssetLocations, getScopeRoot, isSameLocation, describeLocation } from './ClaudeAsset';
+import { TrashEntry, getTrashManager } from './TrashManager';
+import { runTransaction, writeJsonAtomic } from './Transaction';
 
 export interface MarketplaceSourceData {
     source: {
@@ -29,27 +31,24 @@ export interface MarketplaceSource {
     installLocation: string;
     lastUpdated: string;
     scope: 'user' | 'project';
+    projectFolder?: string;  // workspace folder path for project scope marketplaces
 }
 
-export class MarketplaceManager {
+export class MarketplaceManager implements AssetTransferer<MarketplaceSource> {
     constructor() { }
 
     private getUserMarketplacesPath(): string {
         return path.join(os.homedir(), '.claude', 'plugins', 'known_marketplaces.json');
     }
 
-    private getProjectMarketplacesPath(): string | undefined {
-        if (!vscode.workspace.workspaceFolders) {
-            return undefined;
+    /**
+     * Resolve known_marketplaces.json for a scope; project scope needs the workspace folder
+     */
+    private getMarketplacesPath(scope: 'user' | 'project', projectFolder?: string): string {
+        if (scope === 'user') {
+            return this.getUserMarketplacesPath();
         }
-        const config = vscode.workspace.getConfiguration('claudeCodeAssist');
-        const projectPathRel = config.get<string>('projectSkillsPath') || './.claude';
-        return path.join(
-            vscode.workspace.workspaceFolders[0].uri.fsPath,
-            projectPathRel,
-            'plugins',
-            'known_marketplaces.json'
-        );
+        return path.join(getScopeRoot({ scope, projectFolder }), 'plugins', 'known_marketplaces.json');
     }
 
     private readMarketplacesJson(filePath: string): KnownMarketplacesData | null {
@@ -66,43 +65,24 @@ export class MarketplaceManager {
     }
 
     private writeMarketplacesJson(filePath: string, data: KnownMarketplacesData): void {
-        const dir = path.dirname(filePath);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+        writeJsonAtomic(filePath, data);
     }
 
     public async getMarketplaces(): Promise<MarketplaceSource[]> {
         const marketplaces: MarketplaceSource[] = [];
 
-        // Read user marketplaces
-        const userPath = this.getUserMarketplacesPath();
-        const userData = this.readMarketplacesJson(userPath);
-        if (userData) {
-            for (const [name, data] of Object.entries(userData)) {
-                marketplaces.push({
-                    name,
-                    source: data.source,
-                    installLocation: data.installLocation,
-                    lastUpdated: data.lastUpdated,
-                    scope: 'user'
-                });
-            }
-        }
-
-        // Read project marketplaces
-        const projectPath = this.getProjectMarketplacesPath();
-        if (projectPath) {
-            const projectData = this.readMarketplacesJson(projectPath);
-            if (projectData) {
-                for (const [name, data] of Object.entries(projectData)) {
+        // Read user marketplaces and the project marketplaces of every workspace folder
+        for (const location of getAssetLocations()) {
+            const data = this.readMarketplacesJson(this.getMarketplacesPath(location.scope, location.projectFolder));
+            if (data) {
+                for (const [name, entry] of Object.entries(data)) {
                     marketplaces.push({
                         name,
-                        source: data.source,
-                        installLocation: data.installLocation,
-                        lastUpdated: data.lastUpdated,
-                        scope: 'project'
+                        source: entry.source,
+                        installLocation: entry.installLocation,
+                        lastUpdated: entry.lastUpdated,
+                        scope: location.scope,
+                        projectFolder: location.projectFolder
                     });
                 }
             }
@@ -112,7 +92,7 @@ export class MarketplaceManager {
         return marketplaces.sort((a, b) => a.name.localeCompare(b.name));
     }
 
-    public async addMarketplace(name: string, repo: string, scope: 'user' | 'project'): Promise<void> {
+    public async addMarketplace(name: string, repo: string, scope: 'user' | 'project', projectFolder?: string): Promise<void> {
         const execFileAsync = promisify(execFile);
 
         // Try using claude CLI first
@@ -121,7 +101,8 @@ export class MarketplaceManager {
             if (scope === 'project') {
                 args.push('--scope', 'project');
             }
-            await execFileAsync('claude', args);
+            // Project scope is resolved by the CLI from its working directory
+            await execFileAsync('claude', args, { cwd: scope === 'project' ? projectFolder : undefined });
             return;
         } catch (cliError) {
             // CLI not available or failed, fallback to direct file manipulation
@@ -129,13 +110,7 @@ export class MarketplaceManager {
         }
 
         // Fallback: Direct file manipulation
-        const filePath = scope === 'user'
-            ? this.getUserMarketplacesPath()
-            : this.getProjectMarketplacesPath();
-
-        if (!filePath) {
-            throw new Error('No workspace folder open');
-        }
+        const filePath = this.getMarketplacesPath(scope, projectFolder);
 
         const data = this.readMarketplacesJson(filePath) || {};
 
@@ -160,47 +135,59 @@ export class MarketplaceManager {
         this.writeMarketplacesJson(filePath, data);
     }
 
-    public async removeMarketplace(name: string, scope: 'user' | 'project'): Promise<void> {
+    /**
+     * Remove a marketplace. Its registration and cached files are kept in
+     * Recently Deleted first so the removal can be undone.
+     */
+    public async removeMarketplace(name: string, scope: 'user' | 'project', projectFolder?: string): Promise<TrashEntry | undefined> {
         const execFileAsync = promisify(execFile);
 
-        // Try using claude CLI first
+        const filePath = this.getMarketplacesPath(scope, projectFolder);
+        const registration = this.readMarketplacesJson(filePath)?.[name];
+        const trashEntry = registration
+            ? await getTrashManager().trash('marketplace', { name, path: registration.installLocation, scope, projectFolder }, {
+                registry: { file: filePath, key: name, value: registration },
+                keepSource: true
+            })
+            : undefined;
+
         try {
-            const args = ['plugin', 'marketplace', 'remove', name];
-            if (scope === 'project') {
-                args.push('--scope', 'project');
+            // Try using claude CLI first
+            try {
+                const args = ['plugin', 'marketplace', 'remove', name];
+                if (scope === 'project') {
+                    args.push('--scope', 'project');
+                }
+                // Project scope is resolved by the CLI from its working directory
+                await execFileAsync('claude', args, { cwd: scope === 'project' ? projectFolder : undefined });
+                return trashEntry;
+            } catch (cliError) {
+                // CLI not available or failed, fallback to direct file manipulation
+                console.log('Claude CLI not available, using direct file manipulation');
             }
-            await execFileAsync('claude', args);
-            return;
-        } catch (cliError) {
-            // CLI not available or failed, fallback to direct file manipulation
-            console.log('Claude CLI not available, using direct file manipulation');
-        }
 
-        // Fallback: Direct file manipulation
-        const filePath = scope === 'user'
-            ? this.getUserMarketplacesPath()
-            : this.getProjectMarketplacesPath();
+            // Fallback: Direct file manipulation
+            const data = this.readMarketplacesJson(filePath);
+            if (!data || !data[name]) {
+                throw new Error(`Marketplace "${name}" not found`);
+            }
 
-        if (!filePath) {
-            throw new Error('No workspace folder open');
-        }
+            // Optionally delete cached files
+            removePath(data[name].installLocation);
 
-        const data = this.readMarketplacesJson(filePath);
-        if (!data || !data[name]) {
-            throw new Error(`Marketplace "${name}" not found`);
-        }
-
-        // Optionally delete cached files
-        const installLocation = data[name].installLocation;
-        if (fs.existsSync(installLocation)) {
-            this.deleteRecursiveSync(installLocation);
+            delete data[name];
+            this.writeMarketplacesJson(filePath, data);
+            return trashEntry;
+        } catch (error) {
+            // Nothing was removed, so there is nothing to restore
+            if (trashEntry) {
+                getTrashManager().purge(trashEntry.id);
+            }
+            throw error;
         }
-
-        delete data[name];
-        this.writeMarketplacesJson(filePath, data);
     }
 
-    public async refreshMarketplace(name: string, scope: 'user' | 'project'): Promise<void> {
+    public async refreshMarketplace(name: string, scope: 'user' | 'project', projectFolder?: string): Promise<void> {
         const execFileAsync = promisify(execFile);
 
         // Try using claude CLI first
@@ -209,7 +196,8 @@ export class MarketplaceManager {
             if (scope === 'project') {
                 args.push('--scope', 'project');
             }
-            await execFileAsync('claude', args);
+            // Project scope is resolved by the CLI from its working directory
+            await execFileAsync('claude', args, { cwd: scope === 'project' ? projectFolder : undefined });
             return;
         } catch (cliError) {
             // CLI not available or failed, update timestamp only
@@ -217,13 +205,7 @@ export class MarketplaceManager {
         }
 
         // Fallback: Update lastUpdated timestamp
-        const filePath = scope === 'user'
-            ? this.getUserMarketplacesPath()
-            : this.getProjectMarketplacesPath();
-
-        if (!filePath) {
-            throw new Error('No workspace folder open');
-        }
+        const filePath = this.getMarketplacesPath(scope, projectFolder);
 
         const data = this.readMarketplacesJson(filePath);
         if (!data || !data[name]) {
@@ -234,217 +216,51 @@ export class MarketplaceManager {
         this.writeMarketplacesJson(filePath, data);
     }
 
-    public async moveToUser(marketplace: MarketplaceSource): Promise<void> {
-        if (marketplace.scope === 'user') { return; }
-
-        const userFilePath = this.getUserMarketplacesPath();
-        const projectFilePath = this.getProjectMarketplacesPath();
-
-        if (!projectFilePath) {
-            throw new Error('No workspace folder open');
-        }
-
-        const userData = this.readMarketplacesJson(userFilePath) || {};
-        const projectData = this.readMarketplacesJson(projectFilePath);
-
-        if (!projectData || !projectData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" not found in project scope`);
-        }
-
-        if (userData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" already exists in user scope`);
-        }
-
-        // Calculate new install location
-        const newInstallLocation = path.join(
-            os.homedir(), '.claude', 'plugins', 'marketplaces', marketplace.name
-        );
-
-        // Copy files if they exist
-        if (fs.existsSync(marketplace.installLocation)) {
-            this.copyRecursiveSync(marketplace.installLocation, newInstallLocation);
-        }
-
-        // Add to user scope
-        userData[marketplace.name] = {
-            source: projectData[marketplace.name].source,
-            installLocation: newInstallLocation,
-            lastUpdated: new Date().toISOString()
-        };
-        this.writeMarketplacesJson(userFilePath, userData);
-
-        // Remove from project scope
-        if (fs.existsSync(marketplace.installLocation)) {
-            this.deleteRecursiveSync(marketplace.installLocation);
-        }
-        delete projectData[marketplace.name];
-        this.writeMarketplacesJson(projectFilePath, projectData);
-    }
-
-    public async copyToUser(marketplace: MarketplaceSource): Promise<void> {
-        if (marketplace.scope === 'user') { return; }
-
-        const userFilePath = this.getUserMarketplacesPath();
-        const projectFilePath = this.getProjectMarketplacesPath();
-
-        if (!projectFilePath) {
-            throw new Error('No workspace folder open');
-        }
-
-        const userData = this.readMarketplacesJson(userFilePath) || {};
-        const projectData = this.readMarketplacesJson(projectFilePath);
-
-        if (!projectData || !projectData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" not found in project scope`);
-        }
-
-        if (userData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" already exists in user scope`);
-        }
-
-        // Calculate new install location
-        const newInstallLocation = path.join(
-            os.homedir(), '.claude', 'plugins', 'marketplaces', marketplace.name
-        );
-
-        // Copy files if they exist
-        if (fs.existsSync(marketplace.installLocation)) {
-            this.copyRecursiveSync(marketplace.installLocation, newInstallLocation);
-        }
-
-        // Add to user scope (keep in project scope as well)
-        userData[marketplace.name] = {
-            source: projectData[marketplace.name].source,
-            installLocation: newInstallLocation,
-            lastUpdated: new Date().toISOString()
-        };
-        this.writeMarketplacesJson(userFilePath, userData);
-    }
-
-    public async moveToProject(marketplace: MarketplaceSource): Promise<void> {
-        if (marketplace.scope === 'project') { return; }
+    /**
+     * Copy or move a marketplace registration (and its cached files) to another scope
+     */
+    public async transfer(marketplace: MarketplaceSource, target: AssetLocation, mode: TransferMode): Promise<void> {
+        if (isSameLocation(marketplace, target)) { return; }
 
-        const userFilePath = this.getUserMarketplacesPath();
-        const projectFilePath = this.getProjectMarketplacesPath();
-
-        if (!projectFilePath) {
-            throw new Error('No workspace folder open');
-        }
+        const sourceFilePath = this.getMarketplacesPath(marketplace.scope, marketplace.projectFolder);
+        const targetFilePath = this.getMarketplacesPath(target.scope, target.projectFolder);
 
-        const userData = this.readMarketplacesJson(userFilePath);
-        const projectData = this.readMarketplacesJson(projectFilePath) || {};
+        const sourceData = this.readMarketplacesJson(sourceFilePath);
+        const targetData = this.readMarketplacesJson(targetFilePath) || {};
 
-        if (!userData || !userData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" not found in user scope`);
+        if (!sourceData || !sourceData[marketplace.name]) {
+            throw new Error(`Marketplace "${marketplace.name}" not found in ${describeLocation(marketplace)} scope`);
         }
 
-        if (projectData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" already exists in project scope`);
+        if (targetData[marketplace.name]) {
+            throw new Error(`Marketplace "${marketplace.name}" already exists in ${describeLocation(target)} scope`);
         }
 
         // Calculate new install location
-        const newInstallLocation = path.join(
-            path.dirname(projectFilePath), 'marketplaces', marketplace.name
-        );
-
-        // Copy files if they exist
-        if (fs.existsSync(marketplace.installLocation)) {
-            this.copyRecursiveSync(marketplace.installLocation, newInstallLocation);
-        }
-
-        // Add to project scope
-        projectData[marketplace.name] = {
-            source: userData[marketplace.name].source,
-            installLocation: newInstallLocation,
-            lastUpdated: new Date().toISOString()
-        };
-        this.writeMarketplacesJson(projectFilePath, projectData);
-
-        // Remove from user scope
-        if (fs.existsSync(marketplace.installLocation)) {
-            this.deleteRecursiveSync(marketplace.installLocation);
-        }
-        delete userData[marketplace.name];
-        this.writeMarketplacesJson(userFilePath, userData);
-    }
-
-    public async copyToProject(marketplace: MarketplaceSource): Promise<void> {
-        if (marketplace.scope === 'project') { return; }
-
-        const userFilePath = this.getUserMarketplacesPath();
-        const projectFilePath = this.getProjectMarketplacesPath();
-
-        if (!projectFilePath) {
-            throw new Error('No workspace folder open');
-        }
-
-        const userData = this.readMarketplacesJson(userFilePath);
-        const projectData = this.readMarketplacesJson(projectFilePath) || {};
-
-        if (!userData || !userData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" not found in user scope`);
-        }
-
-        if (projectData[marketplace.name]) {
-            throw new Error(`Marketplace "${marketplace.name}" already exists in project scope`);
-        }
-
-        // Calculate new install location
-        const newInstallLocation = path.join(
-            path.dirname(projectFilePath), 'marketplaces', marketplace.name
-        );
-
-        // Copy files if they exist
-        if (fs.existsSync(marketplace.installLocation)) {
-            this.copyRecursiveSync(marketplace.installLocation, newInstallLocation);
-        }
-
-        // Add to project scope (keep in user scope as well)
-        projectData[marketplace.name] = {
-            source: userData[marketplace.name].source,
-            installLocation: newInstallLocation,
-            lastUpdated: new Date().toISOString()
-        };
-        this.writeMarketplacesJson(projectFilePath, projectData);
-    }
-
-    private copyRecursiveSync(src: string, dest: string): void {
-        if (!fs.existsSync(dest)) {
-            fs.mkdirSync(dest, { recursive: true });
-        }
-
-        if (fs.statSync(src).isDirectory()) {
-            fs.readdirSync(src).forEach((childItemName) => {
-                const childItemPath = path.join(src, childItemName);
-                const childItemDestPath = path.join(dest, childItemName);
-                const childStats = fs.statSync(childItemPath);
-
-                if (childStats.isDirectory()) {
-                    this.copyRecursiveSync(childItemPath, childItemDestPath);
-                } else {
-                    fs.copyFileSync(childItemPath, childItemDestPath);
-                }
-            });
-        } else {
-            fs.copyFileSync(src, dest);
-        }
-    }
+        const newInstallLocation = target.scope === 'user'
+            ? path.join(os.homedir(), '.claude', 'plugins', 'marketplaces', marketplace.name)
+            : path.join(path.dirname(targetFilePath), 'marketplaces', marketplace.name);
+
+        await runTransaction(tx => {
+            // Copy files if they exist
+            if (fs.existsSync(marketplace.installLocation)) {
+                tx.copy(marketplace.installLocation, newInstallLocation);
+            }
 
-    private deleteRecursiveSync(dirPath: string): void {
-        if (fs.existsSync(dirPath)) {
-            if (fs.statSync(dirPath).isDirectory()) {
-                fs.readdirSync(dirPath).forEach((file) => {
-                    const curPath = path.join(dirPath, file);
-                    if (fs.statSync(curPath).isDirectory()) {
-                        this.deleteRecursiveSync(curPath);
-                    } else {
-                        fs.unlinkSync(curPath);
-                    }
-                });
-                fs.rmdirSync(dirPath);
-            } else {
-                fs.unlinkSync(dirPath);
+            // Add to target scope
+            targetData[marketplace.name] = {
+                source: sourceData[marketplace.name].source,
+                installLocation: newInstallLocation,
+                lastUpdated: new Date().toISOString()
+            };
+            tx.writeJson(targetFilePath, targetData);
+
+            if (mode === 'move') {
+                // Remove from source scope; cached files go once both files are written
+                delete sourceData[marketplace.name];
+                tx.writeJson(sourceFilePath, sourceData);
+                tx.remove(marketplace.installLocation);
             }
-        }
+        });
     }
 }
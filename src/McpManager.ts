@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as cp from 'child_process';
+import { AssetLocation, AssetTransferer, ClaudeAsset, TransferMode, getAssetLocations, describeLocation, isSameLocation } from './ClaudeAsset';
+import { getSettingsPath, readSettingsFile } from './SettingsFiles';
+import { TrashEntry, getTrashManager } from './TrashManager';
+import { Transaction, runTransaction, writeJsonAtomic } from './Transaction';
+
+export type McpTransport = 'stdio' | 'http' | 'sse';
+
+export interface McpServerConfig {
+    type?: McpTransport;
+    command?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    url?: string;
+    headers?: Record<string, string>;
+    [key: string]: unknown;
+}
+
+/**
+ * An MCP server definition. path is the config file it was read from
+ * (.mcp.json, ~/.claude.json or the extension's disabled servers file).
+ */
+export interface McpServerItem extends ClaudeAsset {
+    transport: McpTransport;
+    config: McpServerConfig;
+    enabled: boolean;
+}
+
+export interface McpTestResult {
+    serverName?: string;
+    serverVersion?: string;
+    protocolVersion?: string;
+    capabilities: string[];
+    toolCount?: number;
+    durationMs: number;
+}
+
+interface McpConfigFile {
+    mcpServers?: Record<string, McpServerConfig>;
+    [key: string]: unknown;
+}
+
+const PROTOCOL_VERSION = '2025-06-18';
+const TEST_TIMEOUT_MS = 15000;
+
+/**
+ * Manages MCP servers of the project (.mcp.json in each workspace folder)
+ * and user (~/.claude.json) scopes.
+ *
+ * Claude Code has no switch for user servers, so disabled user servers are
+ * parked in ~/.claude/.assist-disabled-mcp.json. Project servers are
+ * disabled natively through disabledMcpjsonServers in settings.local.json.
+ */
+export class McpManager implements AssetTransferer<McpServerItem> {
+    constructor() { }
+
+    public getConfigPath(location: AssetLocation): string {
+        if (location.scope === 'user') {
+            return path.join(os.homedir(), '.claude.json');
+        }
+        if (!location.projectFolder) {
+            throw new Error('No workspace folder open');
+        }
+        return path.join(location.projectFolder, '.mcp.json');
+    }
+
+    private getDisabledUserServersPath(): string {
+        return path.join(os.homedir(), '.claude', '.assist-disabled-mcp.json');
+    }
+
+    private getLocalSettingsPath(location: AssetLocation): string {
+        return getSettingsPath({ ...location, local: true });
+    }
+
+    public async getServers(): Promise<McpServerItem[]> {
+        const servers: McpServerItem[] = [];
+
+        for (const location of getAssetLocations()) {
+            const configPath = this.getConfigPath(location);
+            const disabled = location.scope === 'project' ? this.getDisabledProjectServers(location) : new Set<string>();
+
+            for (const [name, config] of Object.entries(this.readConfig(configPath)?.mcpServers || {})) {
+                servers.push(this.createItem(name, config, configPath, location, !disabled.has(name)));
+            }
+
+            if (location.scope === 'user') {
+                const parkedPath = this.getDisabledUserServersPath();
+                for (const [name, config] of Object.entries(this.readConfig(parkedPath)?.mcpServers || {})) {
+                    servers.push(this.createItem(name, config, parkedPath, location, false));
+                }
+            }
+        }
+
+        return servers.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    private createItem(name: string, config: McpServerConfig, configPath: string, location: AssetLocation, enabled: boolean): McpServerItem {
+        return {
+            name,
+            path: configPath,
+            scope: location.scope,
+            projectFolder: location.projectFolder,
+            transport: config.type || (config.url ? 'http' : 'stdio'),
+            config,
+            enabled
+        };
+    }
+
+    public async addServer(location: AssetLocation, name: string, config: McpServerConfig): Promise<void> {
+        const configPath = this.getConfigPath(location);
+        const existing = (await this.getServers()).find(s => s.name === name && isSameLocation(s, location));
+        if (existing) {
+            throw new Error(`MCP server "${name}" already exists in ${describeLocation(location)} scope`);
+        }
+
+        await runTransaction(tx => {
+            this.updateServers(tx, configPath, servers => ({ ...servers, [name]: config }));
+        });
+    }
+
+    /**
+     * Remove a server; the definition is kept in Recently Deleted
+     */
+    public async removeServer(item: McpServerItem): Promise<TrashEntry> {
+        const trashEntry = await getTrashManager().trash('mcpServer', item, {
+            registry: { file: item.path, section: 'mcpServers', key: item.name, value: item.config },
+            registryOnly: true
+        });
+
+        try {
+            await runTransaction(tx => this.removeFromFile(tx, item));
+        } catch (error) {
+            getTrashManager().purge(trashEntry.id);
+            throw error;
+        }
+        return trashEntry;
+    }
+
+    public async setEnabled(item: McpServerItem, enabled: boolean): Promise<void> {
+        if (item.enabled === enabled) { return; }
+
+        await runTransaction(tx => {
+            if (item.scope === 'project') {
+                // Native approval lists of .mcp.json servers
+                const settingsPath = this.getLocalSettingsPath(item);
+                const settings = this.readConfig(settingsPath, true) || {};
+                const without = (key: string) => ((settings[key] as string[] | undefined) || []).filter(n => n !== item.name);
+                settings.disabledMcpjsonServers = enabled ? without('disabledMcpjsonServers') : [...without('disabledMcpjsonServers'), item.name];
+                settings.enabledMcpjsonServers = enabled ? [...without('enabledMcpjsonServers'), item.name] : without('enabledMcpjsonServers');
+                tx.writeJson(settingsPath, settings);
+                return;
+            }
+
+            // User servers are parked outside ~/.claude.json while disabled
+            const targetPath = enabled ? this.getConfigPath(item) : this.getDisabledUserServersPath();
+            this.updateServers(tx, targetPath, servers => {
+                if (servers[item.name]) {
+                    throw new Error(`MCP server "${item.name}" already exists in ${targetPath}`);
+                }
+                return { ...servers, [item.name]: item.config };
+            });
+            this.removeFromFile(tx, item);
+        });
+    }
+
+    /**
+     * Copy or move a server definition to another scope
+     */
+    public async transfer(item: McpServerItem, target: AssetLocation, mode: TransferMode): Promise<void> {
+        if (isSameLocation(item, target)) { return; }
+
+        const targetPath = this.getConfigPath(target);
+        await runTransaction(tx => {
+            this.updateServers(tx, targetPath, servers => {
+                if (servers[item.name]) {
+                    throw new Error(`MCP server "${item.name}" already exists in ${describeLocation(target)} scope`);
+                }
+                return { ...servers, [item.name]: item.config };
+            });
+
+            if (mode === 'move') {
+                this.removeFromFile(tx, item);
+            }
+        });
+    }
+
+    private removeFromFile(tx: Transaction, item: McpServerItem): void {
+        this.updateServers(tx, item.path, servers => {
+            if (!servers[item.name]) {
+                throw new Error(`MCP server "${item.name}" not found in ${item.path}`);
+            }
+            const { [item.name]: _removed, ...rest } = servers;
+            return rest;
+        });
+    }
+
+    /**
+     * Change the mcpServers of a config file and leave every other key alone.
+     * The running CLI rewrites ~/.claude.json all the time, so the file is
+     * read right before writing, the write is aborted when it changed in
+     * between, and rollback restores only mcpServers.
+     */
+    private updateServers(
+        tx: Transaction,
+        filePath: string,
+        update: (servers: Record<string, McpServerConfig>) => Record<string, McpServerConfig>
+    ): void {
+        const readAt = this.getModifiedTime(filePath);
+        const data = this.readConfig(filePath, true) || {};
+        const previous = data.mcpServers;
+        data.mcpServers = update({ ...(previous || {}) });
+
+        if (this.getModifiedTime(filePath) !== readAt) {
+            throw new Error(`${filePath} was changed by another process, please try again`);
+        }
+        writeJsonAtomic(filePath, data);
+
+        tx.onRollback(() => {
+            const current = this.readConfig(filePath, true) || {};
+            if (previous === undefined) {
+                delete current.mcpServers;
+            } else {
+                current.mcpServers = previous;
+            }
+            writeJsonAtomic(filePath, current);
+        });
+    }
+
+    private getModifiedTime(filePath: string): number | undefined {
+        return fs.existsSync(filePath) ? fs.statSync(filePath).mtimeMs : undefined;
+    }
+
+    private getDisabledProjectServers(location: AssetLocation): Set<string> {
+        const settings = this.readConfig(this.getLocalSettingsPath(location));
+        const disabled = settings?.disabledMcpjsonServers;
+        return new Set(Array.isArray(disabled) ? disabled.map(String) : []);
+    }
+
+    private readConfig(filePath: string, strict = false): McpConfigFile | null {
+        return readSettingsFile<McpConfigFile>(filePath, strict);
+    }
+
+    /**
+     * Command line a connection test runs, with environment variables expanded
+     */
+    public getCommandLine(item: McpServerItem): string {
+        const { command, args } = this.resolveCommand(item);
+        return [command, ...args].map(part => /[\s"']/.test(part) ? JSON.stringify(part) : part).join(' ');
+    }
+
+    private resolveCommand(item: McpServerItem): { command: string; args: string[]; env: Record<string, string> } {
+        const env = { ...process.env } as Record<string, string>;
+        for (const [key, value] of Object.entries(item.config.env || {})) {
+            env[key] = expandEnv(String(value), env);
+        }
+        const command = expandEnv(item.config.command || '', env);
+        const args = (item.config.args || []).map(arg => expandEnv(String(arg), env));
+        return { command, args, env };
+    }
+
+    /**
+     * Spawn a stdio server and perform the MCP initialize handshake
+     * (initialize → notifications/initialized → tools/list)
+     */
+    public testConnection(item: McpServerItem): Promise<McpTestResult> {
+        if (item.transport !== 'stdio' || !item.config.command) {
+            return Promise.reject(new Error(`Connection tests are only supported for stdio servers (this one uses ${item.transport})`));
+        }
+
+        const { command, args, env } = this.resolveCommand(item);
+        const started = Date.now();
+
+        return new Promise((resolve, reject) => {
+            const child = cp.spawn(command, args, {
+                cwd: item.projectFolder || os.homedir(),
+                env,
+                stdio: ['pipe', 'pipe', 'pipe'],
+                shell: process.platform === 'win32'
+            });
+
+            let stdoutBuffer = '';
+            let stderr = '';
+            let result: McpTestResult | undefined;
+            let settled = false;
+
+            const finish = (error?: Error) => {
+                if (settled) { return; }
+                settled = true;
+                clearTimeout(timer);
+                child.kill();
+                if (error) {
+                    const detail = stderr.trim().split('\n').slice(-5).join('\n');
+                    reject(new Error(detail ? `${error.message}\n${detail}` : error.message));
+                } else {
+                    resolve(result!);
+                }
+            };
+
+            const send = (message: object) => child.stdin.write(JSON.stringify(message) + '\n');
+
+            const timer = setTimeout(() => {
+                // A server that initialized but does not list tools still counts as reachable
+                if (result) {
+                    finish();
+                } else {
+                    finish(new Error(`No initialize response within ${TEST_TIMEOUT_MS / 1000}s`));
+                }
+            }, TEST_TIMEOUT_MS);
+
+            child.on('error', error => finish(new Error(`Failed to start "${command}": ${error.message}`)));
+            child.on('exit', code => finish(new Error(`Server exited with code ${code} before completing the handshake`)));
+            child.stderr.on('data', data => { stderr += data.toString(); });
+            child.stdin.on('error', () => { /* reported through exit */ });
+
+            child.stdout.on('data', data => {
+                stdoutBuffer += data.toString();
+                let newline: number;
+                while ((newline = stdoutBuffer.indexOf('\n')) !== -1) {
+                    const line = stdoutBuffer.slice(0, newline).trim();
+                    stdoutBuffer = stdoutBuffer.slice(newline + 1);
+                    if (!line) { continue; }
+
+                    let message: any;
+                    try {
+                        message = JSON.parse(line);
+                    } catch {
+                        continue;  // servers sometimes log to stdout
+                    }
+
+                    if (message.id === 1) {
+                        if (message.error) {
+                            finish(new Error(`initialize failed: ${message.error.message || JSON.stringify(message.error)}`));
+                            return;
+                        }
+                        const capabilities = message.result?.capabilities || {};
+                        result = {
+                            serverName: message.result?.serverInfo?.name,
+                            serverVersion: message.result?.serverInfo?.version,
+                            protocolVersion: message.result?.protocolVersion,
+                            capabilities: Object.keys(capabilities),
+                            durationMs: Date.now() - started
+                        };
+                        send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+                        if (capabilities.tools) {
+                            send({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+                        } else {
+                            finish();
+                        }
+                    } else if (message.id === 2 && result) {
+                        result.toolCount = Array.isArray(message.result?.tools) ? message.result.tools.length : undefined;
+                        finish();
+                    }
+                }
+            });
+
+            send({
+                jsonrpc: '2.0',
+                id: 1,
+                method: 'initialize',
+                params: {
+                    protocolVersion: PROTOCOL_VERSION,
+                    capabilities: {},
+                    clientInfo: { name: 'claude-code-assist', version: '0.0.1' }
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Expand ${VAR} and ${VAR:-default} the way Claude Code does in .mcp.json
+ */
+function expandEnv(value: string, env: Record<string, string>): string {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) =>
+        env[name] ?? fallback ?? '');
+}
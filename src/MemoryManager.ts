@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AssetLocation, ClaudeAsset, getAssetLocations, getScopeRoot } from './ClaudeAsset';
+
+export type MemoryFileKind = 'user' | 'project' | 'local' | 'nested';
+
+/**
+ * A CLAUDE.md (or CLAUDE.local.md) memory file
+ */
+export interface MemoryFile extends ClaudeAsset {
+    kind: MemoryFileKind;
+}
+
+/**
+ * An @path import of a memory file, resolved recursively
+ */
+export interface MemoryImport {
+    target: string;          // as written after "@"
+    resolvedPath: string;
+    line: number;            // 0-based line in the importing file
+    exists: boolean;
+    cycle: boolean;          // the file is already being imported higher up
+    depthExceeded: boolean;  // beyond the import depth Claude Code follows
+    imports: MemoryImport[];
+}
+
+// Claude Code follows imports up to five hops deep
+const MAX_IMPORT_DEPTH = 5;
+
+// Rough average for English prose and code
+const CHARS_PER_TOKEN = 4;
+
+// Directories never searched for nested CLAUDE.md files
+const NESTED_EXCLUDE = '**/{node_modules,.git,dist,out,build,.venv,venv}/**';
+
+/**
+ * Discovers CLAUDE.md memory files and resolves their @path imports
+ */
+export class MemoryManager {
+    constructor() { }
+
+    /**
+     * The standard memory files of a location, whether they exist or not
+     */
+    public getStandardPaths(location: AssetLocation): { kind: MemoryFileKind; path: string }[] {
+        if (location.scope === 'user') {
+            return [{ kind: 'user', path: path.join(getScopeRoot(location), 'CLAUDE.md') }];
+        }
+        const folder = location.projectFolder!;
+        return [
+            { kind: 'project', path: path.join(folder, 'CLAUDE.md') },
+            { kind: 'project', path: path.join(getScopeRoot(location), 'CLAUDE.md') },
+            { kind: 'local', path: path.join(folder, 'CLAUDE.local.md') }
+        ];
+    }
+
+    public async getMemoryFiles(): Promise<MemoryFile[]> {
+        const files: MemoryFile[] = [];
+
+        for (const location of getAssetLocations()) {
+            const standard = this.getStandardPaths(location);
+            for (const { kind, path: filePath } of standard) {
+                if (fs.existsSync(filePath)) {
+                    files.push({ ...location, kind, name: this.getDisplayName(filePath, location), path: filePath });
+                }
+            }
+
+            if (location.scope === 'project' && location.projectFolder) {
+                // Nested CLAUDE.md files are loaded when Claude reads files below them
+                const standardPaths = new Set(standard.map(s => s.path));
+                const nested = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(vscode.Uri.file(location.projectFolder), '**/CLAUDE.md'),
+                    NESTED_EXCLUDE
+                );
+                nested
+                    .map(uri => uri.fsPath)
+                    .filter(filePath => !standardPaths.has(filePath))
+                    .sort()
+                    .forEach(filePath => files.push({ ...location, kind: 'nested', name: this.getDisplayName(filePath, location), path: filePath }));
+            }
+        }
+
+        return files;
+    }
+
+    private getDisplayName(filePath: string, location: AssetLocation): string {
+        if (location.scope === 'user') {
+            return `~/${path.relative(os.homedir(), filePath).split(path.sep).join('/')}`;
+        }
+        return path.relative(location.projectFolder!, filePath).split(path.sep).join('/');
+    }
+
+    /**
+     * Resolve the @path imports of a file recursively
+     */
+    public getImports(filePath: string): MemoryImport[] {
+        return this.resolveImports(filePath, [path.resolve(filePath)], 1);
+    }
+
+    private resolveImports(filePath: string, ancestors: string[], depth: number): MemoryImport[] {
+        let content: string;
+        try {
+            content = fs.readFileSync(filePath, 'utf-8');
+        } catch {
+            return [];
+        }
+
+        return parseImports(content).map(({ target, line }) => {
+            const resolvedPath = resolveImportPath(target, filePath);
+            const exists = fs.existsSync(resolvedPath) && fs.statSync(resolvedPath).isFile();
+            const cycle = ancestors.includes(resolvedPath);
+            const depthExceeded = depth > MAX_IMPORT_DEPTH;
+            return {
+                target,
+                resolvedPath,
+                line,
+                exists,
+                cycle,
+                depthExceeded,
+                imports: exists && !cycle && !depthExceeded
+                    ? this.resolveImports(resolvedPath, [...ancestors, resolvedPath], depth + 1)
+                    : []
+            };
+        });
+    }
+
+    /**
+     * Approximate token count of a file with its imports expanded
+     */
+    public estimateTokens(filePath: string, imports: MemoryImport[] = this.getImports(filePath)): number {
+        return Math.ceil(this.expandedLength(filePath, imports) / CHARS_PER_TOKEN);
+    }
+
+    private expandedLength(filePath: string, imports: MemoryImport[]): number {
+        let length = 0;
+        try {
+            length = fs.statSync(filePath).size;
+        } catch {
+            return 0;
+        }
+        for (const child of imports) {
+            if (child.exists && !child.cycle && !child.depthExceeded) {
+                length += this.expandedLength(child.resolvedPath, child.imports);
+            }
+        }
+        return length;
+    }
+
+    /**
+     * Number of broken imports and cycles anywhere in an import tree
+     */
+    public countProblems(imports: MemoryImport[]): number {
+        return imports.reduce((count, child) =>
+            count + (!child.exists || child.cycle ? 1 : 0) + this.countProblems(child.imports), 0);
+    }
+
+    /**
+     * Create a missing standard memory file with a heading
+     */
+    public createMemoryFile(filePath: string): void {
+        if (fs.existsSync(filePath)) {
+            throw new Error(`${filePath} already exists`);
+        }
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const heading = path.basename(filePath) === 'CLAUDE.local.md' ? '# Local Memory' : '# Memory';
+        fs.writeFileSync(filePath, `${heading}\n\n`, 'utf-8');
+    }
+}
+
+/**
+ * Find @path imports outside of code spans and fenced code blocks
+ */
+function parseImports(content: string): { target: string; line: number }[] {
+    const imports: { target: string; line: number }[] = [];
+    let inFence = false;
+
+    content.split('\n').forEach((text, line) => {
+        if (/^\s*(```|~~~)/.test(text)) {
+            inFence = !inFence;
+            return;
+        }
+        if (inFence) {
+            return;
+        }
+
+        const withoutCode = text.replace(/`[^`]*`/g, match => ' '.repeat(match.length));
+        const pattern = /(^|\s)@((?:~\/|\.{1,2}\/|\/)?[^\s@`]+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(withoutCode)) !== null) {
+            // Trailing punctuation belongs to the sentence, not the path
+            const target = match[2].replace(/[.,;:!?)\]]+$/, '');
+            if (target) {
+                imports.push({ target, line });
+            }
+        }
+    });
+
+    return imports;
+}
+
+/**
+ * Imports are relative to the importing file; "~/" refers to the home directory
+ */
+function resolveImportPath(target: string, fromFile: string): string {
+    if (target.startsWith('~/')) {
+        return path.resolve(os.homedir(), target.slice(2));
+    }
+    return path.resolve(path.dirname(fromFile), target);
+}
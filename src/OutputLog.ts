@@ -0,0 +1,15 @@
+import * as vscode from 'vscode';
+
+let channel: vscode.OutputChannel | undefined;
+
+/**
+ * Route messages of modules without their own channel, like transactions and
+ * settings file reads, to the extension's output channel
+ */
+export function setOutputChannel(output: vscode.OutputChannel): void {
+    channel = output;
+}
+
+export function appendLog(message: string): void {
+    channel?.appendLine(message);
+}
@@ -0,0 +1,65 @@
+import { FrontmatterError, SkillMetadata, readMetadata } from './FrontmatterParser';
+import { AssetLocation, AssetTransferer, ClaudeAsset, TransferMode, isSameLocation } from './ClaudeAsset';
+import { FileAssetStore } from './FileAssetStore';
+import { getSettingsPath, getSettingsLocations, readSettingsFile } from './SettingsFiles';
+import { TrashEntry } from './TrashManager';
+
+export interface OutputStyleItem extends ClaudeAsset {
+    definitionFile?: string;
+    metadata?: SkillMetadata;
+    metadataErrors?: FrontmatterError[];
+    active: boolean;  // selected by the outputStyle setting of its scope
+}
+
+/**
+ * Output styles in output-styles/ of every scope
+ */
+export class OutputStyleManager implements AssetTransferer<OutputStyleItem> {
+    private readonly store = new FileAssetStore<OutputStyleItem>('outputStyle', (name, itemPath, location) => this.createOutputStyleItem(name, itemPath, location));
+
+    constructor() { }
+
+    public async getOutputStyles(): Promise<OutputStyleItem[]> {
+        return this.store.list();
+    }
+
+    private createOutputStyleItem(name: string, itemPath: string, location: AssetLocation): OutputStyleItem {
+        const { definitionFile, metadata, errors } = readMetadata(itemPath);
+        const styleName = metadata?.name || name.replace(/\.md$/i, '');
+        return {
+            name,
+            path: itemPath,
+            scope: location.scope,
+            projectFolder: location.projectFolder,
+            definitionFile,
+            metadata,
+            metadataErrors: errors,
+            active: this.getActiveStyle(location) === styleName
+        };
+    }
+
+    /**
+     * The outputStyle setting that applies to a location; local settings
+     * override project settings, which override user settings
+     */
+    private getActiveStyle(location: AssetLocation): string | undefined {
+        const candidates = getSettingsLocations()
+            .filter(settings => settings.scope === 'user' || isSameLocation(settings, location))
+            .reverse();
+        for (const settings of candidates) {
+            const style = readSettingsFile(getSettingsPath(settings))?.outputStyle;
+            if (typeof style === 'string') {
+                return style;
+            }
+        }
+        return undefined;
+    }
+
+    public async deleteOutputStyle(item: OutputStyleItem): Promise<TrashEntry> {
+        return this.store.delete(item);
+    }
+
+    public async transfer(style: OutputStyleItem, target: AssetLocation, mode: TransferMode): Promise<void> {
+        await this.store.transfer(style, target, mode);
+    }
+}
@@ -0,0 +1,234 @@
+import { SettingsLocation, getSettingsPath, getSettingsLocations, describeSettingsLocation, readSettingsFile } from './SettingsFiles';
+import { runTransaction } from './Transaction';
+
+// Rule lists in order of precedence: deny wins over ask, ask over allow
+export const PERMISSION_LISTS = ['deny', 'ask', 'allow'] as const;
+
+export type PermissionList = typeof PERMISSION_LISTS[number];
+
+/**
+ * One rule of permissions.allow/deny/ask in a settings file
+ */
+export interface PermissionRule extends SettingsLocation {
+    rule: string;
+    list: PermissionList;
+    path: string;       // settings file
+    index: number;      // index in permissions[list]
+    errors: string[];
+    warnings: string[];
+    overriddenBy?: PermissionRule;  // same rule in a list of higher precedence
+}
+
+export interface RuleValidation {
+    errors: string[];
+    warnings: string[];
+}
+
+interface SettingsData {
+    permissions?: Partial<Record<PermissionList, string[]>> & Record<string, unknown>;
+    [key: string]: unknown;
+}
+
+// Tools Claude Code accepts in permission rules
+const KNOWN_TOOLS = new Set([
+    'Bash', 'BashOutput', 'KillShell', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Read', 'Glob', 'Grep', 'LS',
+    'WebFetch', 'WebSearch', 'Task', 'TodoWrite', 'SlashCommand', 'ExitPlanMode'
+]);
+
+// Tools matched by gitignore style path specifiers
+const PATH_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Read', 'Glob', 'Grep', 'LS']);
+
+// Tools without a specifier syntax
+const NO_SPECIFIER_TOOLS = new Set(['WebSearch', 'TodoWrite', 'ExitPlanMode', 'BashOutput', 'KillShell']);
+
+/**
+ * Check the syntax of a permission rule, e.g. Bash(npm run test:*),
+ * Read(./secrets/**), WebFetch(domain:example.com) or mcp__github
+ */
+export function validatePermissionRule(rule: string): RuleValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!rule.trim()) {
+        return { errors: ['Rule cannot be empty'], warnings };
+    }
+    if (rule !== rule.trim()) {
+        warnings.push('Leading or trailing whitespace is part of the rule');
+    }
+
+    const match = rule.trim().match(/^([^()\s]+)(?:\(([\s\S]*)\))?$/);
+    if (!match) {
+        return { errors: ['Expected Tool or Tool(specifier), e.g. Bash(npm run test:*)'], warnings };
+    }
+    const [, tool, specifier] = match;
+
+    if (tool.startsWith('mcp__')) {
+        if (specifier !== undefined) {
+            errors.push('MCP rules take no specifier; use mcp__server or mcp__server__tool');
+        }
+        if (tool.includes('*')) {
+            warnings.push('Wildcards are not supported in MCP rules; mcp__server matches all tools of a server');
+        }
+        return { errors, warnings };
+    }
+
+    if (!KNOWN_TOOLS.has(tool)) {
+        warnings.push(`Unknown tool "${tool}"`);
+    }
+    if (specifier === undefined) {
+        return { errors, warnings };
+    }
+
+    if (!specifier.trim()) {
+        errors.push(`Empty specifier; use ${tool} to match every use of the tool`);
+    } else if (NO_SPECIFIER_TOOLS.has(tool)) {
+        warnings.push(`${tool} rules do not take a specifier`);
+    } else if (tool === 'Bash') {
+        if (specifier.includes(':*') && !specifier.endsWith(':*')) {
+            errors.push('The ":*" prefix wildcard is only allowed at the end of a Bash rule');
+        }
+    } else if (tool === 'WebFetch') {
+        if (!/^domain:[^\s/]+$/.test(specifier)) {
+            errors.push('WebFetch rules use the form WebFetch(domain:example.com)');
+        }
+    } else if (PATH_TOOLS.has(tool)) {
+        if (specifier.includes('\\')) {
+            warnings.push('Use forward slashes in path rules');
+        }
+        if (/^[A-Za-z]:/.test(specifier)) {
+            warnings.push('Absolute paths start with "//" (e.g. //c/Users/...)');
+        }
+    }
+
+    return { errors, warnings };
+}
+
+/**
+ * Reads and edits permissions.allow/deny/ask across the user, project and
+ * local settings files
+ */
+export class PermissionManager {
+    constructor() { }
+
+    public getLocations(): SettingsLocation[] {
+        return getSettingsLocations();
+    }
+
+    public describeLocation(location: SettingsLocation): string {
+        return describeSettingsLocation(location);
+    }
+
+    public getSettingsPath(location: SettingsLocation): string {
+        return getSettingsPath(location);
+    }
+
+    /**
+     * Rules of every settings file with validation results. Rules shadowed
+     * by the same rule in a list of higher precedence get overriddenBy.
+     */
+    public getRules(): PermissionRule[] {
+        const rules: PermissionRule[] = [];
+
+        for (const location of this.getLocations()) {
+            const settingsPath = getSettingsPath(location);
+            const permissions = readSettingsFile<SettingsData>(settingsPath)?.permissions;
+            if (!permissions || typeof permissions !== 'object') {
+                continue;
+            }
+
+            for (const list of PERMISSION_LISTS) {
+                const entries = permissions[list];
+                if (!Array.isArray(entries)) {
+                    continue;
+                }
+                entries.forEach((rule, index) => {
+                    const validation = typeof rule === 'string'
+                        ? validatePermissionRule(rule)
+                        : { errors: ['Rule must be a string'], warnings: [] };
+                    rules.push({ ...location, rule: String(rule), list, path: settingsPath, index, ...validation });
+                });
+            }
+        }
+
+        // Lists are merged across files, so precedence only depends on the list
+        for (const rule of rules) {
+            const rank = PERMISSION_LISTS.indexOf(rule.list);
+            rule.overriddenBy = rules.find(other =>
+                other.rule.trim() === rule.rule.trim() && PERMISSION_LISTS.indexOf(other.list) < rank);
+        }
+
+        return rules;
+    }
+
+    public async addRule(location: SettingsLocation, list: PermissionList, rule: string): Promise<void> {
+        const validation = validatePermissionRule(rule);
+        if (validation.errors.length > 0) {
+            throw new Error(validation.errors.join('; '));
+        }
+
+        const settingsPath = getSettingsPath(location);
+        await runTransaction(tx => {
+            const settings = readSettingsFile<SettingsData>(settingsPath, true) || {};
+            this.insertRule(settings, list, rule, location);
+            tx.writeJson(settingsPath, settings);
+        });
+    }
+
+    public async removeRule(item: PermissionRule): Promise<void> {
+        await runTransaction(tx => {
+            const settings = readSettingsFile<SettingsData>(item.path, true) || {};
+            this.removeFromSettings(settings, item);
+            tx.writeJson(item.path, settings);
+        });
+    }
+
+    /**
+     * Move a rule to another settings file (and optionally another list).
+     * Both files are written in one transaction.
+     */
+    public async moveRule(item: PermissionRule, target: SettingsLocation, list: PermissionList = item.list): Promise<void> {
+        const targetPath = getSettingsPath(target);
+        if (targetPath === item.path && list === item.list) { return; }
+
+        await runTransaction(tx => {
+            const source = readSettingsFile<SettingsData>(item.path, true) || {};
+            this.removeFromSettings(source, item);
+
+            // Same file: apply both edits to one object
+            const destination = targetPath === item.path ? source : readSettingsFile<SettingsData>(targetPath, true) || {};
+            this.insertRule(destination, list, item.rule, target);
+
+            if (destination !== source) {
+                tx.writeJson(targetPath, destination);
+            }
+            tx.writeJson(item.path, source);
+        });
+    }
+
+    private insertRule(settings: SettingsData, list: PermissionList, rule: string, location: SettingsLocation): void {
+        settings.permissions = settings.permissions || {};
+        const rules = settings.permissions[list] = settings.permissions[list] || [];
+        if (rules.includes(rule)) {
+            throw new Error(`"${rule}" is already in ${list} of ${describeSettingsLocation(location)} settings`);
+        }
+        rules.push(rule);
+    }
+
+    /**
+     * Remove a rule and drop the list and permissions object when left empty
+     */
+    private removeFromSettings(settings: SettingsData, item: PermissionRule): void {
+        const rules = settings.permissions?.[item.list];
+        if (!rules || rules[item.index] !== item.rule) {
+            throw new Error('Permissions were changed on disk; refresh and try again');
+        }
+        rules.splice(item.index, 1);
+
+        if (rules.length === 0) {
+            delete settings.permissions![item.list];
+        }
+        if (Object.keys(settings.permissions!).length === 0) {
+            delete settings.permissions;
+        }
+    }
+}
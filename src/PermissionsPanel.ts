@@ -0,0 +1,529 @@
+import * as vscode from 'vscode';
+import { PermissionManager, PermissionRule, PermissionList, PERMISSION_LISTS, validatePermissionRule } from './PermissionManager';
+
+const LIST_DESCRIPTIONS: Record<PermissionList, string> = {
+    deny: 'Always blocked. Deny rules win over ask and allow rules in any file.',
+    ask: 'Claude asks for confirmation. Ask rules win over allow rules.',
+    allow: 'Used without asking.'
+};
+
+/**
+ * Effective permissions.allow/deny/ask rules merged from the user, project
+ * and local settings files, with their source file
+ */
+export class PermissionsPanel {
+    public static currentPanel: PermissionsPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _permissionManager: PermissionManager;
+    private _disposables: vscode.Disposable[] = [];
+    private _rules: PermissionRule[] = [];
+
+    /**
+     * Reload the rules if the panel is open (e.g. after a settings file changed on disk)
+     */
+    public static refreshIfOpen() {
+        PermissionsPanel.currentPanel?._refresh();
+    }
+
+    public static createOrShow(permissionManager: PermissionManager) {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (PermissionsPanel.currentPanel) {
+            PermissionsPanel.currentPanel._panel.reveal(column);
+            PermissionsPanel.currentPanel._refresh();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'claudePermissions',
+            'Permissions',
+            column || vscode.ViewColumn.One,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+
+        PermissionsPanel.currentPanel = new PermissionsPanel(panel, permissionManager);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, permissionManager: PermissionManager) {
+        this._panel = panel;
+        this._permissionManager = permissionManager;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async message => {
+                switch (message.command) {
+                    case 'refresh':
+                        this._refresh();
+                        return;
+                    case 'validate':
+                        this._panel.webview.postMessage({ command: 'validation', ...validatePermissionRule(String(message.rule || '')) });
+                        return;
+                    case 'addRule':
+                        await this._handleAddRule(message);
+                        return;
+                    case 'removeRule':
+                        await this._handleRemoveRule(Number(message.index));
+                        return;
+                    case 'moveRule':
+                        await this._handleMoveRule(Number(message.index));
+                        return;
+                    case 'openFile':
+                        await this._handleOpenFile(Number(message.index));
+                        return;
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        this._refresh();
+    }
+
+    public dispose() {
+        PermissionsPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    private _refresh() {
+        try {
+            this._rules = this._permissionManager.getRules();
+            this._panel.webview.html = this._getHtmlForWebview();
+        } catch (error) {
+            this._sendError(`Failed to load permissions: ${error}`);
+        }
+    }
+
+    private _sendError(message: string) {
+        this._panel.webview.postMessage({ command: 'showError', message });
+        vscode.window.showErrorMessage(message);
+    }
+
+    private _sendSuccess(message: string) {
+        this._panel.webview.postMessage({ command: 'showSuccess', message });
+    }
+
+    private async _handleAddRule(message: any) {
+        const rule = String(message.rule || '').trim();
+        const list = message.list as PermissionList;
+        const location = this._permissionManager.getLocations()[Number(message.location)];
+        if (!PERMISSION_LISTS.includes(list) || !location) {
+            this._sendError('Select a rule list and a settings file');
+            return;
+        }
+
+        try {
+            await this._permissionManager.addRule(location, list, rule);
+            this._refresh();
+            this._sendSuccess(`Added "${rule}" to ${list} in ${this._permissionManager.describeLocation(location)} settings`);
+        } catch (error) {
+            this._sendError(`Failed to add rule: ${error}`);
+        }
+    }
+
+    private async _handleRemoveRule(index: number) {
+        const rule = this._rules[index];
+        if (!rule) { return; }
+
+        const answer = await vscode.window.showWarningMessage(
+            `Remove "${rule.rule}" from ${rule.list} in ${rule.path}?`, { modal: true }, 'Remove');
+        if (answer !== 'Remove') { return; }
+
+        try {
+            await this._permissionManager.removeRule(rule);
+            this._refresh();
+            this._sendSuccess(`Removed "${rule.rule}"`);
+        } catch (error) {
+            this._sendError(`Failed to remove rule: ${error}`);
+        }
+    }
+
+    private async _handleMoveRule(index: number) {
+        const rule = this._rules[index];
+        if (!rule) { return; }
+
+        const targets = this._permissionManager.getLocations()
+            .filter(location => this._permissionManager.getSettingsPath(location) !== rule.path)
+            .map(location => ({
+                label: this._permissionManager.describeLocation(location),
+                detail: this._permissionManager.getSettingsPath(location),
+                location
+            }));
+        if (targets.length === 0) {
+            this._sendError('There is no other settings file to move the rule to');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(targets, { placeHolder: `Move "${rule.rule}" to` });
+        if (!picked) { return; }
+
+        try {
+            await this._permissionManager.moveRule(rule, picked.location);
+            this._refresh();
+            this._sendSuccess(`Moved "${rule.rule}" to ${picked.label} settings`);
+        } catch (error) {
+            this._sendError(`Failed to move rule: ${error}`);
+        }
+    }
+
+    private async _handleOpenFile(index: number) {
+        const rule = this._rules[index];
+        if (rule) {
+            const document = await vscode.workspace.openTextDocument(rule.path);
+            await vscode.window.showTextDocument(document);
+        }
+    }
+
+    private _getHtmlForWebview() {
+        const locations = this._permissionManager.getLocations();
+        const locationOptions = locations.map((location, index) =>
+            `<option value="${index}" title="${this._escapeHtml(this._permissionManager.getSettingsPath(location))}">` +
+            `${this._escapeHtml(this._permissionManager.describeLocation(location))}</option>`
+        ).join('');
+        const listOptions = PERMISSION_LISTS.map(list => `<option value="${list}" ${list === 'allow' ? 'selected' : ''}>${list}</option>`).join('');
+
+        const renderRule = (rule: PermissionRule) => {
+            const index = this._rules.indexOf(rule);
+            const notes: string[] = [
+                ...rule.errors.map(e => `<div class="note error">${this._escapeHtml(e)}</div>`),
+                ...rule.warnings.map(w => `<div class="note warning">${this._escapeHtml(w)}</div>`)
+            ];
+            if (rule.overriddenBy) {
+                notes.push(`<div class="note muted">Overridden by ${rule.overriddenBy.list} in ${this._escapeHtml(this._permissionManager.describeLocation(rule.overriddenBy))} settings</div>`);
+            }
+
+            return `
+                <div class="rule ${rule.overriddenBy ? 'overridden' : ''}">
+                    <div class="rule-main">
+                        <code>${this._escapeHtml(rule.rule)}</code>
+                        ${notes.join('')}
+                    </div>
+                    <a class="source" href="#" onclick="openFile(${index})" title="${this._escapeHtml(rule.path)}">${this._escapeHtml(this._permissionManager.describeLocation(rule))}</a>
+                    <div class="rule-actions">
+                        <button class="action-btn" onclick="moveRule(${index})" title="Move to another settings file">&#8644;</button>
+                        <button class="action-btn delete-btn" onclick="removeRule(${index})" title="Remove">&#128465;</button>
+                    </div>
+                </div>
+            `;
+        };
+
+        const sections = PERMISSION_LISTS.map(list => {
+            const rules = this._rules.filter(rule => rule.list === list);
+            return `
+                <div class="section">
+                    <div class="section-header">
+                        <h2>${list[0].toUpperCase() + list.slice(1)}</h2>
+                        <span class="count">${rules.length}</span>
+                    </div>
+                    <div class="section-hint">${LIST_DESCRIPTIONS[list]}</div>
+                    ${rules.length > 0 ? rules.map(renderRule).join('') : '<div class="empty-state">No rules</div>'}
+                </div>
+            `;
+        }).join('');
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Permissions</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    padding: 16px;
+                    margin: 0;
+                    color: var(--vscode-foreground);
+                    background: var(--vscode-editor-background);
+                }
+
+                .header {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    margin-bottom: 16px;
+                    padding-bottom: 16px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                h1 {
+                    margin: 0;
+                    font-size: 1.4em;
+                }
+
+                .add-form {
+                    display: flex;
+                    gap: 8px;
+                    align-items: flex-start;
+                    margin-bottom: 24px;
+                }
+
+                .add-form .rule-input {
+                    flex: 1;
+                }
+
+                input, select {
+                    padding: 6px 8px;
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+                    border-radius: 2px;
+                    font-family: inherit;
+                }
+
+                input {
+                    width: 100%;
+                    box-sizing: border-box;
+                    font-family: var(--vscode-editor-font-family);
+                }
+
+                button {
+                    background: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 7px 14px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                }
+
+                button.secondary {
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                }
+
+                .section {
+                    margin-bottom: 24px;
+                }
+
+                .section-header {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 8px 12px;
+                    background: var(--vscode-sideBarSectionHeader-background);
+                    border-radius: 4px;
+                }
+
+                .section-header h2 {
+                    margin: 0;
+                    font-size: 1em;
+                    flex: 1;
+                }
+
+                .section-hint {
+                    font-size: 0.85em;
+                    color: var(--vscode-descriptionForeground);
+                    margin: 6px 0 8px 0;
+                }
+
+                .count {
+                    background: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                    padding: 2px 8px;
+                    border-radius: 10px;
+                    font-size: 0.85em;
+                }
+
+                .rule {
+                    display: flex;
+                    align-items: center;
+                    gap: 12px;
+                    padding: 8px 12px;
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                    margin-bottom: 6px;
+                }
+
+                .rule.overridden code {
+                    text-decoration: line-through;
+                    opacity: 0.7;
+                }
+
+                .rule-main {
+                    flex: 1;
+                }
+
+                code {
+                    font-family: var(--vscode-editor-font-family);
+                }
+
+                .source {
+                    font-size: 0.85em;
+                    color: var(--vscode-textLink-foreground);
+                    white-space: nowrap;
+                }
+
+                .rule-actions {
+                    display: flex;
+                    gap: 4px;
+                }
+
+                .action-btn {
+                    background: transparent;
+                    border: 1px solid var(--vscode-panel-border);
+                    color: var(--vscode-foreground);
+                    width: 28px;
+                    height: 28px;
+                    padding: 0;
+                }
+
+                .action-btn:hover {
+                    background: var(--vscode-list-hoverBackground);
+                }
+
+                .action-btn.delete-btn:hover {
+                    border-color: var(--vscode-errorForeground);
+                    color: var(--vscode-errorForeground);
+                }
+
+                .note {
+                    font-size: 0.85em;
+                    margin-top: 4px;
+                }
+
+                .note.error {
+                    color: var(--vscode-errorForeground);
+                }
+
+                .note.warning {
+                    color: var(--vscode-editorWarning-foreground);
+                }
+
+                .note.muted {
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .empty-state {
+                    padding: 8px 12px;
+                    color: var(--vscode-descriptionForeground);
+                    font-style: italic;
+                }
+
+                .toast {
+                    position: fixed;
+                    bottom: 20px;
+                    right: 20px;
+                    padding: 12px 20px;
+                    border-radius: 4px;
+                    background: var(--vscode-notifications-background);
+                    border: 1px solid var(--vscode-notifications-border);
+                    z-index: 1000;
+                }
+
+                .toast.error {
+                    border-color: var(--vscode-errorForeground);
+                }
+
+                .toast.success {
+                    border-color: var(--vscode-gitDecoration-addedResourceForeground);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <h1>Permissions</h1>
+                <button class="secondary" onclick="refresh()">Refresh</button>
+            </div>
+
+            <div class="add-form">
+                <div class="rule-input">
+                    <input id="rule" placeholder="e.g. Bash(npm run test:*), Read(./secrets/**), WebFetch(domain:example.com)" oninput="validate()" onkeydown="if (event.key === 'Enter') addRule()">
+                    <div id="validation"></div>
+                </div>
+                <select id="list">${listOptions}</select>
+                <select id="location">${locationOptions}</select>
+                <button onclick="addRule()">Add Rule</button>
+            </div>
+
+            ${sections}
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                let validateTimer;
+
+                function refresh() {
+                    vscode.postMessage({ command: 'refresh' });
+                }
+
+                function validate() {
+                    clearTimeout(validateTimer);
+                    validateTimer = setTimeout(() => {
+                        vscode.postMessage({ command: 'validate', rule: document.getElementById('rule').value });
+                    }, 200);
+                }
+
+                function addRule() {
+                    vscode.postMessage({
+                        command: 'addRule',
+                        rule: document.getElementById('rule').value,
+                        list: document.getElementById('list').value,
+                        location: document.getElementById('location').value
+                    });
+                }
+
+                function removeRule(index) {
+                    vscode.postMessage({ command: 'removeRule', index });
+                }
+
+                function moveRule(index) {
+                    vscode.postMessage({ command: 'moveRule', index });
+                }
+
+                function openFile(index) {
+                    vscode.postMessage({ command: 'openFile', index });
+                }
+
+                function showToast(message, type) {
+                    const toast = document.createElement('div');
+                    toast.className = 'toast ' + type;
+                    toast.textContent = message;
+                    document.body.appendChild(toast);
+                    setTimeout(() => toast.remove(), 3000);
+                }
+
+                function renderValidation(errors, warnings) {
+                    const container = document.getElementById('validation');
+                    container.innerHTML = '';
+                    if (!document.getElementById('rule').value) {
+                        return;
+                    }
+                    for (const [messages, type] of [[errors, 'error'], [warnings, 'warning']]) {
+                        for (const text of messages) {
+                            const note = document.createElement('div');
+                            note.className = 'note ' + type;
+                            note.textContent = text;
+                            container.appendChild(note);
+                        }
+                    }
+                }
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.command === 'showError') {
+                        showToast(message.message, 'error');
+                    } else if (message.command === 'showSuccess') {
+                        showToast(message.message, 'success');
+                    } else if (message.command === 'validation') {
+                        renderValidation(message.errors, message.warnings);
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private _escapeHtml(str: string): string {
+        return str
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+}
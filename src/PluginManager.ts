@@ -1,9 +1,11 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { findProjectRootForPath } from './WorkspacePaths';
+import { AssetLocation, AssetTransferer, TransferMode, getScopeRoot, isSameLocation, describeLocation } from './ClaudeAsset';
+import { runTransaction, writeJsonAtomic } from './Transaction';
 
 export interface InstalledPluginEntry {
     scope: string;
@@ -12,6 +14,7 @@ export interface InstalledPluginEntry {
     installedAt: string;
     lastUpdated: string;
     gitCommitSha?: string;
+    projectPath?: string;  // workspace folder of project scope installs
 }
 
 export interface InstalledPluginsData {
@@ -29,16 +32,17 @@ export interface PluginItem {
     lastUpdated: Date;
     gitCommitSha?: string;
     scope: string;
+    projectFolder?: string;
 }
 
-export class PluginManager {
+export class PluginManager implements AssetTransferer<PluginItem> {
     constructor() { }
 
     private getPluginsBasePath(): string {
         return path.join(os.homedir(), '.claude', 'plugins');
     }
 
-    private getInstalledPluginsPath(): string {
+    public getInstalledPluginsPath(): string {
         return path.join(this.getPluginsBasePath(), 'installed_plugins.json');
     }
 
@@ -57,8 +61,7 @@ export class PluginManager {
     }
 
     private writeInstalledPluginsJson(data: InstalledPluginsData): void {
-        const filePath = this.getInstalledPluginsPath();
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+        writeJsonAtomic(this.getInstalledPluginsPath(), data);
     }
 
     public async getPlugins(): Promise<PluginItem[]> {
@@ -104,7 +107,10 @@ export class PluginManager {
                     installedAt: new Date(entry.installedAt),
                     lastUpdated: new Date(entry.lastUpdated),
                     gitCommitSha: entry.gitCommitSha,
-                    scope: entry.scope
+                    scope: entry.scope,
+                    projectFolder: entry.scope === 'user'
+                        ? undefined
+                        : entry.projectPath || findProjectRootForPath(entry.installPath)?.folder.uri.fsPath
                 });
             }
         }
@@ -135,144 +141,69 @@ export class PluginManager {
         }
     }
 
-    private getProjectPluginsPath(): string | undefined {
-        if (!vscode.workspace.workspaceFolders) {
-            return undefined;
-        }
-        const config = vscode.workspace.getConfiguration('claudeCodeAssist');
-        const projectPathRel = config.get<string>('projectSkillsPath') || './.claude';
-        return path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, projectPathRel, 'plugins');
-    }
-
-    public async moveToUser(plugin: PluginItem): Promise<void> {
-        await this.changePluginScope(plugin, 'user', true);
-    }
-
-    public async copyToUser(plugin: PluginItem): Promise<void> {
-        await this.changePluginScope(plugin, 'user', false);
-    }
-
-    public async moveToProject(plugin: PluginItem): Promise<void> {
-        await this.changePluginScope(plugin, 'project', true);
-    }
-
-    public async copyToProject(plugin: PluginItem): Promise<void> {
-        await this.changePluginScope(plugin, 'project', false);
-    }
-
-    private async changePluginScope(plugin: PluginItem, targetScope: string, deleteSource: boolean): Promise<void> {
-        if (plugin.scope === targetScope) { return; }
+    /**
+     * Copy or move a plugin to another scope: the files go to the target's
+     * plugin cache and installed_plugins.json is updated accordingly
+     */
+    public async transfer(plugin: PluginItem, target: AssetLocation, mode: TransferMode): Promise<void> {
+        if (isSameLocation({ scope: plugin.scope as AssetLocation['scope'], projectFolder: plugin.projectFolder }, target)) { return; }
 
         // Calculate destination path
-        let destBasePath: string | undefined;
-        if (targetScope === 'user') {
-            destBasePath = this.getPluginsBasePath();
-        } else {
-            destBasePath = this.getProjectPluginsPath();
-            if (!destBasePath) {
-                throw new Error('No workspace folder open');
-            }
-        }
+        const destBasePath = target.scope === 'user'
+            ? this.getPluginsBasePath()
+            : path.join(getScopeRoot(target), 'plugins');
 
         // Create cache directory structure: plugins/cache/<marketplace>/<pluginName>/<version>
         const destPath = path.join(destBasePath, 'cache', plugin.marketplace, plugin.name, plugin.version);
 
         if (fs.existsSync(destPath)) {
-            throw new Error(`Plugin already exists in ${targetScope} scope`);
-        }
-
-        // Ensure destination directory exists
-        fs.mkdirSync(destPath, { recursive: true });
-
-        // Copy plugin files
-        this.copyRecursiveSync(plugin.installPath, destPath);
-
-        // Update installed_plugins.json
-        const data = this.readInstalledPluginsJson();
-        if (!data) {
-            throw new Error('Failed to read installed_plugins.json');
+            throw new Error(`Plugin already exists in ${describeLocation(target)} scope`);
         }
 
-        const pluginKey = plugin.id; // format: "pluginName@marketplace"
-        const entries = data.plugins[pluginKey] || [];
-
-        // Find and update/add the entry
-        const sourceEntry = entries.find(e => e.installPath === plugin.installPath);
-
-        if (deleteSource && sourceEntry) {
-            // Move: update existing entry
-            sourceEntry.scope = targetScope;
-            sourceEntry.installPath = destPath;
+        await runTransaction(tx => {
+            // Copy plugin files (staged, removed again on rollback)
+            tx.copy(plugin.installPath, destPath);
 
-            // Delete source files
-            this.deleteRecursiveSync(plugin.installPath);
-        } else {
-            // Copy: add new entry
-            const newEntry: InstalledPluginEntry = {
-                scope: targetScope,
-                installPath: destPath,
-                version: plugin.version,
-                installedAt: new Date().toISOString(),
-                lastUpdated: new Date().toISOString(),
-                gitCommitSha: plugin.gitCommitSha
-            };
-            entries.push(newEntry);
-            data.plugins[pluginKey] = entries;
-        }
-
-        this.writeInstalledPluginsJson(data);
-    }
-
-    private copyRecursiveSync(src: string, dest: string): void {
-        if (!fs.existsSync(dest)) {
-            fs.mkdirSync(dest, { recursive: true });
-        }
+            // Update installed_plugins.json
+            const data = this.readInstalledPluginsJson();
+            if (!data) {
+                throw new Error('Failed to read installed_plugins.json');
+            }
 
-        fs.readdirSync(src).forEach((childItemName) => {
-            const childItemPath = path.join(src, childItemName);
-            const childItemDestPath = path.join(dest, childItemName);
-            const childStats = fs.statSync(childItemPath);
+            const pluginKey = plugin.id; // format: "pluginName@marketplace"
+            const entries = data.plugins[pluginKey] || [];
 
-            if (childStats.isDirectory()) {
-                this.copyRecursiveSync(childItemPath, childItemDestPath);
-            } else {
-                fs.copyFileSync(childItemPath, childItemDestPath);
-            }
-        });
-    }
+            // Find and update/add the entry
+            const sourceEntry = entries.find(e => e.installPath === plugin.installPath);
 
-    private deleteRecursiveSync(dirPath: string): void {
-        if (fs.existsSync(dirPath)) {
-            fs.readdirSync(dirPath).forEach((file) => {
-                const curPath = path.join(dirPath, file);
-                if (fs.statSync(curPath).isDirectory()) {
-                    this.deleteRecursiveSync(curPath);
+            if (mode === 'move' && sourceEntry) {
+                // Move: update existing entry
+                sourceEntry.scope = target.scope;
+                sourceEntry.installPath = destPath;
+                if (target.projectFolder) {
+                    sourceEntry.projectPath = target.projectFolder;
                 } else {
-                    fs.unlinkSync(curPath);
+                    delete sourceEntry.projectPath;
                 }
-            });
-            fs.rmdirSync(dirPath);
-        }
-    }
 
-    private moveFileOrDir(src: string, dest: string): void {
-        try {
-            fs.renameSync(src, dest);
-        } catch (err: unknown) {
-            const error = err as NodeJS.ErrnoException;
-            if (error.code === 'EXDEV') {
-                // Cross-device move: copy then delete
-                if (fs.statSync(src).isDirectory()) {
-                    this.copyRecursiveSync(src, dest);
-                    this.deleteRecursiveSync(src);
-                } else {
-                    fs.copyFileSync(src, dest);
-                    fs.unlinkSync(src);
-                }
+                // Source files are deleted once everything else succeeded
+                tx.remove(plugin.installPath);
             } else {
-                throw err;
+                // Copy: add new entry
+                const newEntry: InstalledPluginEntry = {
+                    scope: target.scope,
+                    installPath: destPath,
+                    version: plugin.version,
+                    installedAt: new Date().toISOString(),
+                    lastUpdated: new Date().toISOString(),
+                    gitCommitSha: plugin.gitCommitSha,
+                    projectPath: target.projectFolder
+                };
+                entries.push(newEntry);
+                data.plugins[pluginKey] = entries;
             }
-        }
-    }
 
+            tx.writeJson(this.getInstalledPluginsPath(), data);
+        });
+    }
 }
@@ -1,69 +1,92 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as cp from 'child_process';
 import { SkillItem } from './SkillManager';
 import { PluginItem } from './PluginManager';
+import { InstallableKind } from './ClaudeAsset';
+import { statusForIssues } from './HeuristicScanner';
+import { getAuditCache } from './AuditCache';
+import { AuditBackend, AuditBackendId, AuditBundle, BackendReport, createAuditBackends, createAuditBundle, getAuditBackendIds } from './AuditBackends';
+import { getAuditPromptConfig } from './AuditPrompt';
+
+// Text files read for an audit. Files without an extension are read when they are text.
+const AUDITED_EXTENSIONS = ['.md', '.txt', '.json', '.js', '.mjs', '.cjs', '.ts', '.py', '.rb', '.pl', '.sh', '.bash', '.zsh', '.ps1', '.yaml', '.yml', '.toml'];
+// Images and fonts cannot run and are left out without a finding
+const INERT_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.bmp', '.woff', '.woff2', '.ttf', '.otf'];
+const MAX_AUDITED_FILE_SIZE = 100 * 1024; // 100KB max per file
 
 /**
- * Execute a command with input via stdin
- * This avoids shell command length limits by not passing data as arguments
+ * Files of an audit target and the ones that could not be audited
  */
-async function execWithStdin(
-    command: string,
-    args: string[],
-    input: string,
-    options: { timeout?: number } = {}
-): Promise<{ stdout: string; stderr: string }> {
-    return new Promise((resolve, reject) => {
-        const child = cp.spawn(command, args, {
-            stdio: ['pipe', 'pipe', 'pipe'],
-            timeout: options.timeout || 120000
-        });
-
-        let stdout = '';
-        let stderr = '';
-        let killed = false;
-
-        // Set up timeout
-        const timeoutId = setTimeout(() => {
-            killed = true;
-            child.kill('SIGTERM');
-            reject(new Error(`Command timed out after ${options.timeout || 120000}ms`));
-        }, options.timeout || 120000);
-
-        child.stdout?.on('data', (data) => {
-            stdout += data.toString();
-        });
-
-        child.stderr?.on('data', (data) => {
-            stderr += data.toString();
-        });
-
-        child.on('error', (error) => {
-            clearTimeout(timeoutId);
-            reject(error);
-        });
-
-        child.on('close', (code) => {
-            clearTimeout(timeoutId);
-            if (killed) return;
-
-            if (code === 0) {
-                resolve({ stdout, stderr });
-            } else {
-                const error = new Error(`Command failed with exit code ${code}`) as any;
-                error.code = code;
-                error.stdout = stdout;
-                error.stderr = stderr;
-                reject(error);
+export interface CollectedFiles {
+    files: { file: string; content: string }[];
+    skipped: { file: string; reason: string }[];
+}
+
+/**
+ * Collect contents of files to audit, and the files left out
+ */
+export async function collectAuditFiles(targetPath: string): Promise<CollectedFiles> {
+    const collected: CollectedFiles = { files: [], skipped: [] };
+
+    const processPath = (currentPath: string, basePath: string) => {
+        const stats = fs.statSync(currentPath);
+        const relativePath = path.relative(basePath, currentPath) || path.basename(currentPath);
+
+        if (stats.isFile()) {
+            const name = path.basename(currentPath);
+            const ext = path.extname(name).toLowerCase();
+            if (INERT_EXTENSIONS.includes(ext) || name === '.DS_Store') {
+                return;
+            }
+            if (ext && !AUDITED_EXTENSIONS.includes(ext)) {
+                collected.skipped.push({ file: relativePath, reason: `unsupported file type ${ext}` });
+                return;
+            }
+            if (stats.size > MAX_AUDITED_FILE_SIZE) {
+                collected.skipped.push({ file: relativePath, reason: 'larger than 100KB' });
+                return;
+            }
+            let content: string;
+            try {
+                content = fs.readFileSync(currentPath, 'utf-8');
+            } catch {
+                collected.skipped.push({ file: relativePath, reason: 'unreadable' });
+                return;
+            }
+            if (content.includes('\0')) {
+                collected.skipped.push({ file: relativePath, reason: 'binary' });
+                return;
+            }
+            collected.files.push({ file: relativePath, content });
+        } else if (stats.isDirectory()) {
+            // .claude-plugin declares the hooks, MCP servers and commands of a
+            // plugin or marketplace. Git metadata is not installed content.
+            const dirName = path.basename(currentPath);
+            if (currentPath !== basePath && dirName === '.git') {
+                return;
+            }
+            if (currentPath !== basePath && ((dirName.startsWith('.') && dirName !== '.claude-plugin') || dirName === 'node_modules')) {
+                collected.skipped.push({ file: relativePath, reason: dirName === 'node_modules' ? 'dependencies folder' : 'hidden folder' });
+                return;
             }
-        });
 
-        // Write input to stdin and close it
-        child.stdin?.write(input);
-        child.stdin?.end();
-    });
+            const entries = fs.readdirSync(currentPath);
+            for (const entry of entries) {
+                processPath(path.join(currentPath, entry), basePath);
+            }
+        }
+    };
+
+    processPath(targetPath, targetPath);
+    return collected;
+}
+
+/**
+ * Collect contents of files to audit
+ */
+export async function collectFileContents(targetPath: string): Promise<{ file: string; content: string }[]> {
+    return (await collectAuditFiles(targetPath)).files;
 }
 
 export interface SecurityIssue {
@@ -72,17 +95,76 @@ export interface SecurityIssue {
     description: string;
     file?: string;
     line?: number;
+    column?: number;     // 1-based, when the finding is a precise span
+    endColumn?: number;  // exclusive
     suggestion?: string;
 }
 
+const SEVERITY_RANK: Record<SecurityIssue['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/**
+ * Absolute path of the file an issue points to. Issue files are relative to
+ * the audited folder; single-file items report their own name.
+ */
+export function getIssueFilePath(result: AuditResult, issue: SecurityIssue): string | undefined {
+    if (!issue.file) {
+        return undefined;
+    }
+    const isDirectory = fs.existsSync(result.itemPath) && fs.statSync(result.itemPath).isDirectory();
+    return isDirectory ? path.join(result.itemPath, issue.file) : result.itemPath;
+}
+
+/**
+ * The auditSeverityThreshold setting: lower findings are hidden in warnings
+ */
+export function getSeverityThreshold(): SecurityIssue['severity'] {
+    // Only the user may loosen the threshold; workspace values are ignored
+    const threshold = vscode.workspace.getConfiguration('claudeCodeAssist').inspect<string>('auditSeverityThreshold')?.globalValue;
+    return threshold && Object.keys(SEVERITY_RANK).includes(threshold) ? threshold as SecurityIssue['severity'] : 'medium';
+}
+
+/**
+ * Issues whose severity is at or above a threshold
+ */
+export function issuesAtOrAbove(issues: SecurityIssue[], threshold: SecurityIssue['severity']): SecurityIssue[] {
+    return issues.filter(issue => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[threshold]);
+}
+
+/**
+ * Everything that can be audited: installable assets plus marketplace clones
+ */
+export type AuditableKind = InstallableKind | 'marketplace';
+
 export interface AuditResult {
     itemName: string;
     itemPath: string;
-    itemType: 'skill' | 'agent' | 'command' | 'plugin';
+    itemType: AuditableKind;
     status: 'safe' | 'warning' | 'danger' | 'error';
     issues: SecurityIssue[];
     auditedAt: Date;
     rawResponse?: string;
+    cached?: boolean;  // reused from the audit cache
+    promptVersion?: string;  // AUDIT_PROMPT_VERSION, plus a label and hash for customized prompts
+}
+
+/**
+ * Anything auditable as files on disk
+ */
+export interface AuditTarget {
+    name: string;
+    path: string;
+    type: AuditableKind;
+}
+
+// Bump when the default audit prompt or the heuristic rules change so cached results are discarded
+export const AUDIT_PROMPT_VERSION = 2;
+
+const STATUS_RANK: Record<AuditResult['status'], number> = { safe: 0, warning: 1, danger: 2, error: 3 };
+
+export interface AuditRunOptions {
+    useCache?: boolean;
+    token?: vscode.CancellationToken;
+    backends?: AuditBackendId[];  // defaults to the configured backends
 }
 
 export interface AuditProgress {
@@ -93,6 +175,9 @@ export interface AuditProgress {
 
 export class SecurityAuditor {
     private outputChannel: vscode.OutputChannel;
+    private readonly _onDidAudit = new vscode.EventEmitter<AuditResult>();
+    // Fires with every completed audit, including staged and cached ones
+    readonly onDidAudit = this._onDidAudit.event;
 
     constructor(outputChannel?: vscode.OutputChannel) {
         this.outputChannel = outputChannel || vscode.window.createOutputChannel('Claude Code Security Audit');
@@ -106,8 +191,9 @@ export class SecurityAuditor {
         this.outputChannel.appendLine(`Path: ${skill.path}`);
 
         try {
-            const result = await this.runClaudeCodeAudit(skill.path, skill.name, skill.type);
+            const result = await this.runAudit(skill.path, skill.name, skill.type);
             this.logAuditResult(result);
+            this._onDidAudit.fire(result);
             return result;
         } catch (error) {
             const errorResult: AuditResult = {
@@ -135,8 +221,9 @@ export class SecurityAuditor {
         this.outputChannel.appendLine(`Path: ${plugin.installPath}`);
 
         try {
-            const result = await this.runClaudeCodeAudit(plugin.installPath, plugin.name, 'plugin');
+            const result = await this.runAudit(plugin.installPath, plugin.name, 'plugin');
             this.logAuditResult(result);
+            this._onDidAudit.fire(result);
             return result;
         } catch (error) {
             const errorResult: AuditResult = {
@@ -159,13 +246,19 @@ export class SecurityAuditor {
     /**
      * Audit a path directly (for post-installation audit)
      */
-    public async auditPath(targetPath: string, name: string, type: 'skill' | 'agent' | 'command' | 'plugin'): Promise<AuditResult> {
+    public async auditPath(
+        targetPath: string,
+        name: string,
+        type: AuditableKind,
+        options: AuditRunOptions = {}
+    ): Promise<AuditResult> {
         this.outputChannel.appendLine(`\n=== Auditing ${type}: ${name} ===`);
         this.outputChannel.appendLine(`Path: ${targetPath}`);
 
         try {
-            const result = await this.runClaudeCodeAudit(targetPath, name, type);
+            const result = await this.runAudit(targetPath, name, type, options);
             this.logAuditResult(result);
+            this._onDidAudit.fire(result);
             return result;
         } catch (error) {
             const errorResult: AuditResult = {
@@ -186,46 +279,59 @@ export class SecurityAuditor {
     }
 
     /**
-     * Audit all skills, agents, and plugins
+     * Audit all skills, agents, output styles and plugins with a bounded
+     * number of audits in flight. Results come back in target order; after
+     * cancellation only the audits that completed are returned.
      */
     public async auditAll(
-        skills: SkillItem[],
-        plugins: PluginItem[],
-        progressCallback?: (progress: AuditProgress) => void
+        targets: AuditTarget[],
+        progressCallback?: (progress: AuditProgress) => void,
+        options: { token?: vscode.CancellationToken; backends?: AuditBackendId[]; onResult?: (result: AuditResult) => void } = {}
     ): Promise<AuditResult[]> {
-        const results: AuditResult[] = [];
-        const total = skills.length + plugins.length;
+        const { token, backends, onResult } = options;
+        const total = targets.length;
+        const concurrency = Math.max(1, vscode.workspace.getConfiguration('claudeCodeAssist').get<number>('auditConcurrency', 3));
+        const completed: (AuditResult | undefined)[] = new Array(total);
+        let next = 0;
         let current = 0;
 
+        const counts = new Map<string, number>();
+        for (const target of targets) {
+            counts.set(target.type, (counts.get(target.type) || 0) + 1);
+        }
+
         this.outputChannel.appendLine(`\n========================================`);
         this.outputChannel.appendLine(`Starting full security audit`);
-        this.outputChannel.appendLine(`Total items: ${total} (${skills.length} skills/agents, ${plugins.length} plugins)`);
+        this.outputChannel.appendLine(`Total items: ${total} (${Array.from(counts).map(([type, count]) => `${count} ${type}`).join(', ')})`);
+        this.outputChannel.appendLine(`Concurrency: ${concurrency}`);
+        this.outputChannel.appendLine(`Backends: ${(backends || getAuditBackendIds()).join(', ')}`);
         this.outputChannel.appendLine(`========================================\n`);
 
-        // Audit skills/agents
-        for (const skill of skills) {
-            current++;
-            progressCallback?.({
-                current,
-                total,
-                currentItem: `${skill.type}: ${skill.name}`
-            });
-
-            const result = await this.auditSkill(skill);
-            results.push(result);
-        }
+        const worker = async () => {
+            while (next < total && !token?.isCancellationRequested) {
+                const index = next++;
+                const target = targets[index];
+                const result = await this.auditPath(target.path, target.name, target.type, { useCache: true, token, backends });
+                if (token?.isCancellationRequested) {
+                    // Killed mid-run; the error result is not a finding
+                    return;
+                }
+                completed[index] = result;
+                current++;
+                progressCallback?.({
+                    current,
+                    total,
+                    currentItem: `${target.type}: ${target.name}`
+                });
+                onResult?.(result);
+            }
+        };
 
-        // Audit plugins
-        for (const plugin of plugins) {
-            current++;
-            progressCallback?.({
-                current,
-                total,
-                currentItem: `plugin: ${plugin.name}`
-            });
+        await Promise.all(Array.from({ length: Math.min(concurrency, total) }, () => worker()));
+        const results = completed.filter((result): result is AuditResult => !!result);
 
-            const result = await this.auditPlugin(plugin);
-            results.push(result);
+        if (token?.isCancellationRequested) {
+            this.outputChannel.appendLine(`\nAudit cancelled after ${results.length} of ${total} items.`);
         }
 
         this.outputChannel.appendLine(`\n========================================`);
@@ -234,18 +340,21 @@ export class SecurityAuditor {
         this.outputChannel.appendLine(`  Warning: ${results.filter(r => r.status === 'warning').length}`);
         this.outputChannel.appendLine(`  Danger: ${results.filter(r => r.status === 'danger').length}`);
         this.outputChannel.appendLine(`  Error: ${results.filter(r => r.status === 'error').length}`);
+        this.outputChannel.appendLine(`  Reused from cache: ${results.filter(r => r.cached).length}`);
         this.outputChannel.appendLine(`========================================\n`);
 
         return results;
     }
 
     /**
-     * Run Claude Code CLI to audit a target
+     * Audit a target with the picked or configured backends. With useCache,
+     * an earlier result for identical content and backends is reused.
      */
-    private async runClaudeCodeAudit(
+    private async runAudit(
         targetPath: string,
         itemName: string,
-        itemType: 'skill' | 'agent' | 'command' | 'plugin'
+        itemType: AuditableKind,
+        { useCache, token, backends: backendIds }: AuditRunOptions = {}
     ): Promise<AuditResult> {
         // Check if target exists
         if (!fs.existsSync(targetPath)) {
@@ -253,245 +362,128 @@ export class SecurityAuditor {
         }
 
         // Collect file contents for audit
-        const fileContents = await this.collectFileContents(targetPath);
+        const { files: fileContents, skipped } = await collectAuditFiles(targetPath);
 
-        if (fileContents.length === 0) {
-            return {
-                itemName,
-                itemPath: targetPath,
-                itemType,
-                status: 'safe',
-                issues: [],
-                auditedAt: new Date(),
-                rawResponse: 'No files to audit'
-            };
+        const prompt = getAuditPromptConfig(targetPath);
+        if (prompt.source) {
+            this.outputChannel.appendLine(`Audit prompt: ${prompt.source} (version ${prompt.promptVersion})`);
         }
-
-        // Build audit prompt
-        const auditPrompt = this.buildAuditPrompt(fileContents, itemName, itemType);
-
-        // Execute Claude CLI using stdin to avoid shell command length limits
-        try {
-            const { stdout, stderr } = await execWithStdin(
-                'claude',
-                ['--output-format', 'json'],
-                auditPrompt,
-                { timeout: 120000 } // 2 minute timeout
-            );
-
-            if (stderr) {
-                this.outputChannel.appendLine(`Claude CLI stderr: ${stderr}`);
-            }
-
-            return this.parseClaudeResponse(stdout, itemName, targetPath, itemType);
-        } catch (error: any) {
-            // Check if Claude CLI is installed
-            if (error.message?.includes('command not found') ||
-                error.message?.includes('ENOENT') ||
-                error.code === 'ENOENT') {
-                throw new Error('Claude Code CLI not found. Please ensure Claude Code is installed and available in PATH.');
+        const backends = createAuditBackends(backendIds || getAuditBackendIds(), this.outputChannel, prompt);
+        if (backends.length === 0) {
+            throw new Error('No audit backends selected. Check claudeCodeAssist.auditBackends.');
+        }
+        const engine = backends.map(backend => backend.cacheKey).join('+');
+        const cache = getAuditCache();
+        const contentHash = cache.hashContents(fileContents);
+        if (useCache) {
+            const cached = cache.get(targetPath, contentHash, engine, prompt.promptVersion);
+            if (cached) {
+                this.outputChannel.appendLine(`Unchanged since ${cached.auditedAt.toLocaleString()}, using cached result`);
+                return { ...cached, itemName, itemType, cached: true };
             }
+        }
 
-            // If there's output despite error, try to parse it
-            if (error.stdout) {
-                try {
-                    return this.parseClaudeResponse(error.stdout, itemName, targetPath, itemType);
-                } catch {
-                    // Fall through to throw original error
-                }
+        const result = await this.runBackends(backends, createAuditBundle(itemName, itemType, targetPath, fileContents, prompt), token);
+        result.promptVersion = prompt.promptVersion;
+        // What no backend saw cannot count as safe
+        if (skipped.length > 0) {
+            result.issues.push({
+                severity: 'medium',
+                type: 'unaudited_files',
+                description: `${skipped.length} file(s) were not audited: ` +
+                    skipped.slice(0, 10).map(entry => `${entry.file} (${entry.reason})`).join(', ') +
+                    (skipped.length > 10 ? ', ...' : ''),
+                suggestion: 'Review these files by hand before trusting this item.'
+            });
+            if (STATUS_RANK[statusForIssues(result.issues)] > STATUS_RANK[result.status]) {
+                result.status = statusForIssues(result.issues);
             }
-
-            throw error;
         }
+        // Incomplete audits are not cached so they run again next time
+        if (result.status !== 'error' && !result.issues.some(issue => issue.type === 'audit_error')) {
+            cache.set(targetPath, contentHash, engine, result);
+        }
+        return result;
     }
 
     /**
-     * Collect contents of files to audit
+     * Run every backend in order and merge their reports. A failing backend
+     * leaves a low severity audit_error issue as long as another one ran;
+     * when all fail the audit fails.
      */
-    private async collectFileContents(targetPath: string): Promise<{ file: string; content: string }[]> {
-        const results: { file: string; content: string }[] = [];
-        const extensions = ['.md', '.txt', '.json', '.js', '.ts', '.py', '.sh', '.yaml', '.yml'];
-        const maxFileSize = 100 * 1024; // 100KB max per file
-
-        const processPath = (currentPath: string, basePath: string) => {
-            const stats = fs.statSync(currentPath);
-
-            if (stats.isFile()) {
-                const ext = path.extname(currentPath).toLowerCase();
-                if (extensions.includes(ext) && stats.size <= maxFileSize) {
-                    try {
-                        const content = fs.readFileSync(currentPath, 'utf-8');
-                        const relativePath = path.relative(basePath, currentPath);
-                        results.push({ file: relativePath || path.basename(currentPath), content });
-                    } catch {
-                        // Skip files that can't be read
-                    }
-                }
-            } else if (stats.isDirectory()) {
-                // Skip hidden directories and node_modules
-                const dirName = path.basename(currentPath);
-                if (dirName.startsWith('.') || dirName === 'node_modules') {
-                    return;
-                }
+    private async runBackends(backends: AuditBackend[], bundle: AuditBundle, token?: vscode.CancellationToken): Promise<AuditResult> {
+        const result: AuditResult = {
+            itemName: bundle.itemName,
+            itemPath: bundle.itemPath,
+            itemType: bundle.itemType,
+            status: 'safe',
+            issues: [],
+            auditedAt: new Date()
+        };
+        if (bundle.files.length === 0) {
+            return {
+                ...result,
+                status: 'warning',
+                issues: [{
+                    severity: 'medium',
+                    type: 'unaudited_files',
+                    description: 'No auditable files found'
+                }],
+                rawResponse: 'No files to audit'
+            };
+        }
 
-                const entries = fs.readdirSync(currentPath);
-                for (const entry of entries) {
-                    processPath(path.join(currentPath, entry), basePath);
+        const reports: { backend: AuditBackend; report: BackendReport }[] = [];
+        const failures: { backend: AuditBackend; message: string }[] = [];
+        for (const backend of backends) {
+            try {
+                const report = await backend.audit(bundle, token);
+                this.outputChannel.appendLine(`${backend.label}: ${report.issues.length} issue(s) in ${bundle.files.length} file(s)`);
+                reports.push({ backend, report });
+            } catch (error) {
+                if (token?.isCancellationRequested) {
+                    throw error;
                 }
+                const message = error instanceof Error ? error.message : String(error);
+                this.outputChannel.appendLine(`${backend.label} audit failed: ${message}`);
+                failures.push({ backend, message });
             }
-        };
-
-        processPath(targetPath, targetPath);
-        return results;
-    }
-
-    /**
-     * Build the audit prompt for Claude
-     */
-    private buildAuditPrompt(
-        files: { file: string; content: string }[],
-        itemName: string,
-        itemType: string
-    ): string {
-        const filesContent = files.map(f =>
-            `=== File: ${f.file} ===\n${f.content}\n`
-        ).join('\n');
-
-        return `You are a security auditor for Claude Code extensions. Analyze the following ${itemType} named "${itemName}" for security risks.
-
-Check for these security issues:
-1. **API Key Exposure** (critical): Hardcoded API keys, tokens, passwords, or secrets
-2. **Data Exfiltration** (critical): Code that sends user data, environment variables, or file contents to external servers
-3. **Sensitive File Access** (high): Reading ~/.ssh, ~/.aws, ~/.claude, or other sensitive directories
-4. **Shell Injection** (high): Unsafe command execution or shell injection vulnerabilities
-5. **Suspicious URLs** (high): Requests to unknown or suspicious external services
-6. **Environment Variable Access** (medium): Accessing sensitive env vars like API keys, credentials
-7. **Credential Harvesting** (critical): Patterns that collect and transmit credentials
-8. **Obfuscated Code** (high): Base64 encoded commands, dynamic code execution, or obfuscated logic
-
-FILES TO AUDIT:
-${filesContent}
-
-Respond with a JSON object in this exact format:
-{
-  "status": "safe" | "warning" | "danger",
-  "issues": [
-    {
-      "severity": "low" | "medium" | "high" | "critical",
-      "type": "api_key_exposure" | "data_exfiltration" | "sensitive_file_access" | "shell_injection" | "suspicious_url" | "env_var_access" | "credential_harvesting" | "obfuscated_code" | "other",
-      "description": "Description of the issue",
-      "file": "filename where issue was found",
-      "line": 123,
-      "suggestion": "How to fix or mitigate"
-    }
-  ],
-  "summary": "Brief overall assessment"
-}
-
-If no issues found, return: {"status": "safe", "issues": [], "summary": "No security issues detected"}
+        }
 
-IMPORTANT: Only output the JSON object, nothing else.`;
-    }
+        if (reports.length === 0) {
+            throw new Error(failures.map(failure => `${failure.backend.label}: ${failure.message}`).join('; '));
+        }
 
-    /**
-     * Parse Claude's response into AuditResult
-     */
-    private parseClaudeResponse(
-        response: string,
-        itemName: string,
-        itemPath: string,
-        itemType: 'skill' | 'agent' | 'command' | 'plugin'
-    ): AuditResult {
-        try {
-            // Try to extract JSON from response
-            let jsonStr = response.trim();
-
-            // Handle Claude's output format which may have wrapper
-            if (jsonStr.includes('```json')) {
-                const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
-                if (match) {
-                    jsonStr = match[1];
-                }
-            } else if (jsonStr.includes('```')) {
-                const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
-                if (match) {
-                    jsonStr = match[1];
-                }
+        // Issues at a location an earlier backend already flagged with the same
+        // type are dropped; findings within one report are all kept
+        const seen = new Set<string>();
+        const keyOf = (issue: SecurityIssue) => `${issue.type}:${issue.file}:${issue.line}`;
+        for (const { report } of reports) {
+            result.issues.push(...report.issues.filter(issue => !seen.has(keyOf(issue))));
+            for (const issue of report.issues) {
+                seen.add(keyOf(issue));
             }
-
-            // Try to find JSON object in response
-            const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                jsonStr = jsonMatch[0];
+            if (STATUS_RANK[report.status] > STATUS_RANK[result.status]) {
+                result.status = report.status;
             }
-
-            const parsed = JSON.parse(jsonStr);
-
-            return {
-                itemName,
-                itemPath,
-                itemType,
-                status: this.normalizeStatus(parsed.status),
-                issues: (parsed.issues || []).map((issue: any) => ({
-                    severity: this.normalizeSeverity(issue.severity),
-                    type: issue.type || 'other',
-                    description: issue.description || 'Unknown issue',
-                    file: issue.file,
-                    line: issue.line,
-                    suggestion: issue.suggestion
-                })),
-                auditedAt: new Date(),
-                rawResponse: response
-            };
-        } catch (parseError) {
-            // If parsing fails, try to determine status from text
-            const lowerResponse = response.toLowerCase();
-            const hasDanger = lowerResponse.includes('critical') ||
-                            lowerResponse.includes('danger') ||
-                            lowerResponse.includes('malicious');
-            const hasWarning = lowerResponse.includes('warning') ||
-                             lowerResponse.includes('suspicious') ||
-                             lowerResponse.includes('concern');
-
-            return {
-                itemName,
-                itemPath,
-                itemType,
-                status: hasDanger ? 'danger' : (hasWarning ? 'warning' : 'safe'),
-                issues: hasDanger || hasWarning ? [{
-                    severity: hasDanger ? 'high' : 'medium',
-                    type: 'parse_error',
-                    description: `Could not parse audit response. Manual review recommended. Raw response available.`,
-                    suggestion: 'Review the raw audit response for details.'
-                }] : [],
-                auditedAt: new Date(),
-                rawResponse: response
-            };
         }
-    }
 
-    /**
-     * Normalize status value
-     */
-    private normalizeStatus(status: string): 'safe' | 'warning' | 'danger' | 'error' {
-        const s = (status || '').toLowerCase();
-        if (s === 'safe' || s === 'clean' || s === 'ok') return 'safe';
-        if (s === 'warning' || s === 'warn' || s === 'caution') return 'warning';
-        if (s === 'danger' || s === 'critical' || s === 'malicious' || s === 'unsafe') return 'danger';
-        if (s === 'error') return 'error';
-        return 'warning'; // Default to warning if unknown
-    }
+        // Keep the findings of the backends that ran, but make clear the audit is incomplete
+        for (const failure of failures) {
+            result.issues.push({
+                severity: 'low',
+                type: 'audit_error',
+                description: `${failure.backend.label} audit skipped, only ${reports.map(r => r.backend.label).join(' and ')} ran: ${failure.message}`
+            });
+        }
+        if (failures.length > 0 && STATUS_RANK[statusForIssues(result.issues)] > STATUS_RANK[result.status]) {
+            result.status = statusForIssues(result.issues);
+        }
 
-    /**
-     * Normalize severity value
-     */
-    private normalizeSeverity(severity: string): 'low' | 'medium' | 'high' | 'critical' {
-        const s = (severity || '').toLowerCase();
-        if (s === 'low' || s === 'info') return 'low';
-        if (s === 'medium' || s === 'moderate') return 'medium';
-        if (s === 'high' || s === 'severe') return 'high';
-        if (s === 'critical' || s === 'urgent') return 'critical';
-        return 'medium'; // Default to medium if unknown
+        result.rawResponse = reports.length === 1
+            ? reports[0].report.rawResponse
+            : reports.map(({ backend, report }) => `[${backend.label}]\n${report.rawResponse || ''}`).join('\n\n');
+        return result;
     }
 
     /**
@@ -512,7 +504,7 @@ IMPORTANT: Only output the JSON object, nothing else.`;
             for (const issue of result.issues) {
                 this.outputChannel.appendLine(`  - [${issue.severity.toUpperCase()}] ${issue.type}: ${issue.description}`);
                 if (issue.file) {
-                    this.outputChannel.appendLine(`    File: ${issue.file}${issue.line ? `:${issue.line}` : ''}`);
+                    this.outputChannel.appendLine(`    File: ${issue.file}${issue.line ? `:${issue.line}` : ''}${issue.column ? `:${issue.column}` : ''}`);
                 }
                 if (issue.suggestion) {
                     this.outputChannel.appendLine(`    Suggestion: ${issue.suggestion}`);
@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssetLocation, getAssetLocations, getScopeRoot, describeLocation } from './ClaudeAsset';
+import { appendLog } from './OutputLog';
+
+/**
+ * A Claude Code settings file: settings.json of a scope or, for project
+ * scope, the git-ignored settings.local.json
+ */
+export interface SettingsLocation extends AssetLocation {
+    local?: boolean;
+}
+
+export function getSettingsPath(location: SettingsLocation): string {
+    return path.join(getScopeRoot(location), location.local ? 'settings.local.json' : 'settings.json');
+}
+
+/**
+ * Every settings file: user settings and, per workspace folder, project and
+ * local settings
+ */
+export function getSettingsLocations(): SettingsLocation[] {
+    const locations: SettingsLocation[] = [];
+    for (const location of getAssetLocations()) {
+        locations.push(location);
+        if (location.scope === 'project') {
+            locations.push({ ...location, local: true });
+        }
+    }
+    return locations;
+}
+
+export function describeSettingsLocation(location: SettingsLocation): string {
+    return location.local ? `${describeLocation(location)} (local)` : describeLocation(location);
+}
+
+/**
+ * Read a JSON settings file. With strict, invalid JSON throws instead of
+ * returning null so it is never overwritten.
+ */
+export function readSettingsFile<T = Record<string, unknown>>(filePath: string, strict = false): T | null {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        if (strict) {
+            throw new Error(`Cannot parse ${filePath}: ${error}`);
+        }
+        appendLog(`Failed to read ${filePath}: ${error}`);
+        return null;
+    }
+}
@@ -4,21 +4,80 @@ import * as fs from 'fs';
 import { SkillManager, SkillItem } from './SkillManager';
 import { PluginManager, PluginItem } from './PluginManager';
 import { CommandManager, CommandItem } from './CommandManager';
+import { HookManager, HookItem, HOOK_EVENTS } from './HookManager';
+import { McpManager, McpServerItem } from './McpManager';
+import { MemoryManager, MemoryFile, MemoryImport } from './MemoryManager';
+import { OutputStyleManager, OutputStyleItem } from './OutputStyleManager';
+import { StatusLineManager, StatusLineItem } from './StatusLineManager';
+import { getProjectRoots, getProjectLabel } from './WorkspacePaths';
+import { ASSET_KINDS, AssetKind, AssetLocation, isSameLocation, describeLocation } from './ClaudeAsset';
+import { TrashEntry, getTrashManager } from './TrashManager';
+import { getAuditCache } from './AuditCache';
+
+// Asset kinds listed under every scope node, in display order
+const TREE_CATEGORIES: AssetKind[] = ['memory', 'agent', 'skill', 'command', 'outputStyle', 'hook', 'mcpServer', 'plugin', 'statusLine'];
+
+// Categories with their own context value for inline actions
+const CATEGORY_CONTEXT_VALUES: Partial<Record<AssetKind, string>> = {
+    hook: 'hook-category',
+    mcpServer: 'mcp-category',
+    memory: 'memory-category'
+};
 
 export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<SkillTreeItem | undefined | null | void> = new vscode.EventEmitter<SkillTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<SkillTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
+    // Category nodes handed out to the view, keyed by "scope:type:folder", so
+    // a single category can be refreshed without rebuilding the whole tree
+    private categoryNodes = new Map<string, SkillTreeItem>();
+
+    // Children of each category node; a new asset kind in the tree only needs a loader here
+    private readonly categoryLoaders: Partial<Record<AssetKind, (location: AssetLocation) => Promise<SkillTreeItem[]>>> = {
+        agent: location => this.getSkills(location, 'agent'),
+        skill: location => this.getSkills(location, 'skill'),
+        command: location => this.getCommands(location),
+        outputStyle: location => this.getOutputStyles(location),
+        statusLine: location => Promise.resolve(this.getStatusLines(location)),
+        hook: location => this.getHookEvents(location),
+        mcpServer: location => this.getMcpServers(location),
+        memory: location => this.getMemoryFiles(location),
+        plugin: location => this.getPlugins(location)
+    };
+
     constructor(
         private skillManager: SkillManager,
         private pluginManager: PluginManager,
-        private commandManager: CommandManager
+        private commandManager: CommandManager,
+        private hookManager: HookManager,
+        private mcpManager: McpManager,
+        private memoryManager: MemoryManager,
+        private outputStyleManager: OutputStyleManager,
+        private statusLineManager: StatusLineManager
     ) { }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Refresh only the Agents/Skills/Commands/Plugins node of one scope
+     */
+    refreshCategory(scope: 'user' | 'project', type: AssetKind, projectFolder?: string): void {
+        // Without a folder a project change applies to every workspace folder
+        const nodes = scope === 'project' && !projectFolder
+            ? Array.from(this.categoryNodes.values()).filter(n => n.scope === scope && n.type === type)
+            : [this.categoryNodes.get(`${scope}:${type}:${projectFolder || ''}`)].filter((n): n is SkillTreeItem => !!n);
+
+        if (nodes.length === 0) {
+            this.refresh();
+            return;
+        }
+        for (const node of nodes) {
+            this._onDidChangeTreeData.fire(node);
+        }
+    }
+
     getTreeItem(element: SkillTreeItem): vscode.TreeItem {
         return element;
     }
@@ -26,19 +85,27 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
     getChildren(element?: SkillTreeItem): Thenable<SkillTreeItem[]> {
         if (element) {
             if (element.contextValue === 'scope') {
-                return Promise.resolve([
-                    new SkillTreeItem('Agents', vscode.TreeItemCollapsibleState.Expanded, 'category', element.scope, 'agent'),
-                    new SkillTreeItem('Skills', vscode.TreeItemCollapsibleState.Expanded, 'category', element.scope, 'skill'),
-                    new SkillTreeItem('Commands', vscode.TreeItemCollapsibleState.Expanded, 'category', element.scope, 'command'),
-                    new SkillTreeItem('Plugins', vscode.TreeItemCollapsibleState.Expanded, 'category', element.scope, 'plugin')
-                ]);
-            } else if (element.contextValue === 'category') {
-                if (element.type === 'command') {
-                    return this.getCommands(element.scope!);
-                } else if (element.type === 'plugin') {
-                    return this.getPlugins(element.scope!);
-                }
-                return this.getSkills(element.scope!, element.type as 'skill' | 'agent');
+                const categories = TREE_CATEGORIES.map(kind => {
+                    const contextValue = CATEGORY_CONTEXT_VALUES[kind] || 'category';
+                    const category = new SkillTreeItem(ASSET_KINDS[kind].pluralLabel, vscode.TreeItemCollapsibleState.Expanded, contextValue, element.scope, kind);
+                    category.projectFolder = element.projectFolder;
+                    this.categoryNodes.set(`${category.scope}:${kind}:${category.projectFolder || ''}`, category);
+                    return category;
+                });
+                return Promise.resolve(categories);
+            } else if (element.contextValue === 'trash') {
+                return Promise.resolve(getTrashManager().list().map(entry => this.createTrashItem(entry)));
+            } else if (element.contextValue === 'hook-event') {
+                return Promise.resolve(this.getHookMatchers(element));
+            } else if (element.contextValue === 'hook-matcher') {
+                return Promise.resolve((element.hookItems || []).map(hook => this.createHookItem(hook)));
+            } else if (element.memoryImports) {
+                return Promise.resolve(element.memoryImports.map(memoryImport => this.createMemoryImportItem(memoryImport, element)));
+            } else if (element.mcpServerItem) {
+                return Promise.resolve(this.getMcpServerDetails(element.mcpServerItem));
+            } else if (element.contextValue === 'category' || element.contextValue.endsWith('-category')) {
+                const loader = this.categoryLoaders[element.type!];
+                return loader ? loader({ scope: element.scope!, projectFolder: element.projectFolder }) : Promise.resolve([]);
             } else if (element.pluginItem) {
                 // Handle plugin items - show directory contents
                 if (fs.existsSync(element.pluginItem.installPath) && fs.statSync(element.pluginItem.installPath).isDirectory()) {
@@ -67,22 +134,334 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
             }
             return Promise.resolve([]);
         } else {
-            // Root: User and Project
-            return Promise.resolve([
+            // Root: User and one Project node per workspace folder
+            const projectNodes = getProjectRoots().map(root => {
+                const node = new SkillTreeItem(getProjectLabel(root.folder.uri.fsPath), vscode.TreeItemCollapsibleState.Expanded, 'scope', 'project');
+                node.projectFolder = root.folder.uri.fsPath;
+                node.tooltip = root.claudePath;
+                return node;
+            });
+            const roots = [
                 new SkillTreeItem('User', vscode.TreeItemCollapsibleState.Expanded, 'scope', 'user'),
-                new SkillTreeItem('Project', vscode.TreeItemCollapsibleState.Expanded, 'scope', 'project')
-            ]);
+                ...(projectNodes.length > 0
+                    ? projectNodes
+                    : [new SkillTreeItem('Project', vscode.TreeItemCollapsibleState.Expanded, 'scope', 'project')])
+            ];
+
+            // Recently Deleted is only shown while the trash has entries
+            const trashCount = getTrashManager().list().length;
+            if (trashCount > 0) {
+                const trashNode = new SkillTreeItem('Recently Deleted', vscode.TreeItemCollapsibleState.Collapsed, 'trash');
+                trashNode.iconPath = new vscode.ThemeIcon('trash');
+                trashNode.description = `${trashCount}`;
+                trashNode.tooltip = getTrashManager().getTrashPath();
+                roots.push(trashNode);
+            }
+            return Promise.resolve(roots);
         }
     }
 
-    private async getPlugins(scope: 'user' | 'project'): Promise<SkillTreeItem[]> {
+    /**
+     * Hook events of a location (project scope includes settings.local.json)
+     */
+    private async getHookEvents(location: AssetLocation): Promise<SkillTreeItem[]> {
+        const hooks = (await this.hookManager.getHooks()).filter(hook => isSameLocation(hook, location));
+        const events = Array.from(new Set(hooks.map(hook => hook.event)))
+            .sort((a, b) => this.hookEventOrder(a) - this.hookEventOrder(b));
+
+        return events.map(event => {
+            const eventHooks = hooks.filter(hook => hook.event === event);
+            const item = new SkillTreeItem(event, vscode.TreeItemCollapsibleState.Collapsed, 'hook-event', location.scope, 'hook');
+            item.projectFolder = location.projectFolder;
+            item.hookItems = eventHooks;
+            item.iconPath = new vscode.ThemeIcon('symbol-event');
+            item.description = `${eventHooks.length}`;
+            return item;
+        });
+    }
+
+    private hookEventOrder(event: string): number {
+        const index = HOOK_EVENTS.indexOf(event);
+        return index === -1 ? HOOK_EVENTS.length : index;
+    }
+
+    /**
+     * Matcher groups of an event node; settings.json and settings.local.json
+     * groups are listed separately
+     */
+    private getHookMatchers(eventNode: SkillTreeItem): SkillTreeItem[] {
+        const groups = new Map<string, HookItem[]>();
+        for (const hook of eventNode.hookItems || []) {
+            const key = `${hook.local ? 'local' : ''}:${hook.matcher}`;
+            groups.set(key, [...(groups.get(key) || []), hook]);
+        }
+
+        return Array.from(groups.values()).map(groupHooks => {
+            const first = groupHooks[0];
+            const item = new SkillTreeItem(first.matcher || '*', vscode.TreeItemCollapsibleState.Expanded, 'hook-matcher', eventNode.scope, 'hook');
+            item.projectFolder = eventNode.projectFolder;
+            item.hookItems = groupHooks;
+            item.iconPath = new vscode.ThemeIcon('filter');
+            item.description = first.local ? 'settings.local.json' : undefined;
+            item.tooltip = `${first.matcher ? `Matcher: ${first.matcher}` : 'Matches everything'}\n${first.path}`;
+            return item;
+        });
+    }
+
+    private createHookItem(hook: HookItem): SkillTreeItem {
+        const item = new SkillTreeItem(hook.name, vscode.TreeItemCollapsibleState.None, `${hook.scope}-hook`, hook.scope, 'hook');
+        item.projectFolder = hook.projectFolder;
+        item.hookItem = hook;
+        item.iconPath = new vscode.ThemeIcon(hook.definition.type === 'prompt' ? 'comment' : 'terminal');
+        item.description = hook.definition.timeout ? `${hook.definition.timeout}s` : undefined;
+        item.tooltip = new vscode.MarkdownString(
+            `**Event:** ${hook.event}\n\n` +
+            `**Matcher:** ${hook.matcher || '*'}\n\n` +
+            `**Type:** ${hook.definition.type}\n\n` +
+            `**Settings:** ${hook.path}`
+        );
+        item.command = {
+            command: 'claude-code-assist.editHook',
+            title: 'Edit Hook',
+            arguments: [item]
+        };
+        return item;
+    }
+
+    private async getMemoryFiles(location: AssetLocation): Promise<SkillTreeItem[]> {
+        const files = (await this.memoryManager.getMemoryFiles()).filter(file => isSameLocation(file, location));
+        return files.map(file => this.createMemoryFileItem(file));
+    }
+
+    private createMemoryFileItem(file: MemoryFile): SkillTreeItem {
+        const imports = this.memoryManager.getImports(file.path);
+        const tokens = this.memoryManager.estimateTokens(file.path, imports);
+        const problems = this.memoryManager.countProblems(imports);
+
+        const item = new SkillTreeItem(
+            file.name,
+            imports.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            `${file.scope}-memory`,
+            file.scope,
+            'memory'
+        );
+        item.projectFolder = file.projectFolder;
+        item.memoryFile = file;
+        item.memoryImports = imports.length > 0 ? imports : undefined;
+        item.iconPath = problems > 0
+            ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+            : new vscode.ThemeIcon('book');
+        item.description = [
+            file.kind === 'project' || file.kind === 'user' ? undefined : file.kind,
+            `~${formatTokens(tokens)} tokens`,
+            problems > 0 ? `${problems} import problem${problems === 1 ? '' : 's'}` : undefined
+        ].filter(Boolean).join(' · ');
+        item.tooltip = new vscode.MarkdownString(
+            `**Memory:** ${file.name}\n\n` +
+            `**Approximate size:** ${tokens} tokens with ${imports.length} import(s) expanded\n\n` +
+            `**Path:** ${file.path}`
+        );
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open File',
+            arguments: [vscode.Uri.file(file.path)]
+        };
+        return item;
+    }
+
+    /**
+     * An @path import; broken imports and cycles open the importing file at the import
+     */
+    private createMemoryImportItem(memoryImport: MemoryImport, parent: SkillTreeItem): SkillTreeItem {
+        const item = new SkillTreeItem(
+            `@${memoryImport.target}`,
+            memoryImport.imports.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            'memory-import',
+            parent.scope,
+            'memory'
+        );
+        item.projectFolder = parent.projectFolder;
+        item.memoryImports = memoryImport.imports.length > 0 ? memoryImport.imports : undefined;
+        item.memoryImportSource = parent.memoryImportTarget || parent.memoryFile?.path;
+        item.memoryImportTarget = memoryImport.resolvedPath;
+
+        if (!memoryImport.exists) {
+            item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+            item.description = 'not found';
+        } else if (memoryImport.cycle) {
+            item.iconPath = new vscode.ThemeIcon('sync', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            item.description = 'import cycle';
+        } else if (memoryImport.depthExceeded) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            item.description = 'too deep, not loaded';
+        } else {
+            item.iconPath = new vscode.ThemeIcon('file-symlink-file');
+            item.description = `~${formatTokens(this.memoryManager.estimateTokens(memoryImport.resolvedPath, memoryImport.imports))} tokens`;
+        }
+        item.tooltip = `${memoryImport.resolvedPath}\nImported on line ${memoryImport.line + 1} of ${item.memoryImportSource}`;
+
+        const opensTarget = memoryImport.exists && !memoryImport.cycle;
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open File',
+            arguments: opensTarget
+                ? [vscode.Uri.file(memoryImport.resolvedPath)]
+                : [vscode.Uri.file(item.memoryImportSource!), { selection: new vscode.Range(memoryImport.line, 0, memoryImport.line, 0) }]
+        };
+        return item;
+    }
+
+    private async getOutputStyles(location: AssetLocation): Promise<SkillTreeItem[]> {
+        const styles = (await this.outputStyleManager.getOutputStyles()).filter(style => isSameLocation(style, location));
+        return Promise.all(styles.map(style => {
+            const item = new SkillTreeItem(style.name, vscode.TreeItemCollapsibleState.None, `${style.scope}-outputStyle`, style.scope, 'outputStyle');
+            item.projectFolder = style.projectFolder;
+            item.outputStyleItem = style;
+            item.iconPath = style.metadataErrors && style.metadataErrors.length > 0
+                ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+                : new vscode.ThemeIcon(style.active ? 'pass-filled' : 'symbol-color');
+            item.description = [style.active ? 'active' : undefined, style.metadata?.description?.split('\n')[0]]
+                .filter(Boolean).join(' · ');
+            item.tooltip = new vscode.MarkdownString(
+                `**Output Style:** ${style.metadata?.name || style.name}\n\n` +
+                (style.metadata?.description ? `${style.metadata.description}\n\n` : '') +
+                (style.active ? '**Active** (outputStyle setting)\n\n' : '') +
+                `**Path:** ${style.path}`
+            );
+            const file = style.definitionFile || style.path;
+            if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+                item.command = {
+                    command: 'vscode.open',
+                    title: 'Open File',
+                    arguments: [vscode.Uri.file(file)]
+                };
+            }
+            return this.withAuditState(item, style.path);
+        }));
+    }
+
+    /**
+     * Add the "last audited" or "changed since audit" badge from the audit cache
+     */
+    private async withAuditState(item: SkillTreeItem, itemPath: string): Promise<SkillTreeItem> {
+        const state = await getAuditCache().getState(itemPath);
+        if (!state) {
+            return item;
+        }
+        const badge = state.changed ? 'changed since audit' : `audited ${formatAge(state.auditedAt)}`;
+        item.description = [item.description, badge].filter(Boolean).join(' · ');
+
+        const auditLine = `**Last audit:** ${state.status} on ${state.auditedAt.toLocaleString()}` +
+            (state.changed ? ' (content changed since)' : '');
+        if (item.tooltip instanceof vscode.MarkdownString) {
+            item.tooltip.appendMarkdown(`\n\n${auditLine}`);
+        } else {
+            item.tooltip = new vscode.MarkdownString(`${item.tooltip ?? item.label}\n\n${auditLine}`);
+        }
+        return item;
+    }
+
+    private getStatusLines(location: AssetLocation): SkillTreeItem[] {
+        const statusLines = this.statusLineManager.getStatusLines().filter(statusLine => isSameLocation(statusLine, location));
+        return statusLines.map(statusLine => {
+            const item = new SkillTreeItem(statusLine.command, vscode.TreeItemCollapsibleState.None, `${statusLine.scope}-statusline`, statusLine.scope, 'statusLine');
+            item.projectFolder = statusLine.projectFolder;
+            item.statusLineItem = statusLine;
+            item.iconPath = new vscode.ThemeIcon('layout-statusbar');
+            item.description = statusLine.local ? 'settings.local.json' : 'settings.json';
+            item.tooltip = new vscode.MarkdownString(
+                `**Status line:** \`${statusLine.command}\`\n\n` +
+                `**Type:** ${statusLine.type}` + (statusLine.padding !== undefined ? `, padding ${statusLine.padding}` : '') + '\n\n' +
+                `**Settings:** ${statusLine.path}`
+            );
+            item.command = {
+                command: 'vscode.open',
+                title: 'Open Settings',
+                arguments: [vscode.Uri.file(statusLine.path)]
+            };
+            return item;
+        });
+    }
+
+    private async getMcpServers(location: AssetLocation): Promise<SkillTreeItem[]> {
+        const servers = (await this.mcpManager.getServers()).filter(server => isSameLocation(server, location));
+        return servers.map(server => {
+            const item = new SkillTreeItem(
+                server.name,
+                vscode.TreeItemCollapsibleState.Collapsed,
+                `${server.scope}-mcp-${server.enabled ? 'enabled' : 'disabled'}`,
+                server.scope,
+                'mcpServer'
+            );
+            item.projectFolder = server.projectFolder;
+            item.mcpServerItem = server;
+            item.iconPath = server.enabled
+                ? new vscode.ThemeIcon('server-process')
+                : new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+            item.description = server.enabled ? server.transport : `${server.transport} (disabled)`;
+            item.tooltip = new vscode.MarkdownString(
+                `**MCP Server:** ${server.name}\n\n` +
+                `**Transport:** ${server.transport}\n\n` +
+                `**Status:** ${server.enabled ? 'enabled' : 'disabled'}\n\n` +
+                `**Config:** ${server.path}`
+            );
+            return item;
+        });
+    }
+
+    /**
+     * Command, args, env and URL of a server. Env and header values are
+     * masked since they usually hold secrets.
+     */
+    private getMcpServerDetails(server: McpServerItem): SkillTreeItem[] {
+        const details: [string, string, string][] = [];
+        if (server.config.command) {
+            details.push(['command', server.config.command, 'terminal']);
+        }
+        if (server.config.args && server.config.args.length > 0) {
+            details.push(['args', server.config.args.join(' '), 'list-flat']);
+        }
+        if (server.config.url) {
+            details.push(['url', server.config.url, 'link']);
+        }
+        for (const key of Object.keys(server.config.env || {})) {
+            details.push([key, '••••', 'symbol-variable']);
+        }
+        for (const key of Object.keys(server.config.headers || {})) {
+            details.push([key, '••••', 'symbol-key']);
+        }
+
+        return details.map(([label, value, icon]) => {
+            const item = new SkillTreeItem(label, vscode.TreeItemCollapsibleState.None, 'mcp-detail', server.scope, 'mcpServer');
+            item.description = value;
+            item.tooltip = label === 'command' || label === 'args' || label === 'url' ? value : `${label} (value hidden)`;
+            item.iconPath = new vscode.ThemeIcon(icon);
+            return item;
+        });
+    }
+
+    private createTrashItem(entry: TrashEntry): SkillTreeItem {
+        const item = new SkillTreeItem(entry.name, vscode.TreeItemCollapsibleState.None, 'trash-item');
+        item.trashEntry = entry;
+        item.iconPath = new vscode.ThemeIcon('history');
+        item.description = `${ASSET_KINDS[entry.kind].label} · ${describeLocation(entry)} · ${new Date(entry.deletedAt).toLocaleString()}`;
+        item.tooltip = new vscode.MarkdownString(
+            `**${ASSET_KINDS[entry.kind].label}:** ${entry.name}\n\n` +
+            `**Deleted:** ${new Date(entry.deletedAt).toLocaleString()}\n\n` +
+            `**Original path:** \`${entry.originalPath}\``
+        );
+        return item;
+    }
+
+    private async getPlugins(location: AssetLocation): Promise<SkillTreeItem[]> {
+        const scope = location.scope;
         const plugins = await this.pluginManager.getPlugins();
-        return plugins
-            .filter(plugin => plugin.scope === scope)
+        return Promise.all(plugins
+            .filter(plugin => isSameLocation({ scope: plugin.scope as AssetLocation['scope'], projectFolder: plugin.projectFolder }, location))
             .map(plugin => {
                 // Check if plugin directory exists and has contents
                 const isExpandable = fs.existsSync(plugin.installPath) && fs.statSync(plugin.installPath).isDirectory();
-                return new SkillTreeItem(
+                const item = new SkillTreeItem(
                     plugin.name,
                     isExpandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
                     `${scope}-plugin`,
@@ -91,7 +470,10 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
                     undefined,
                     plugin
                 );
-            });
+                item.projectFolder = plugin.projectFolder;
+                return item;
+            })
+            .map(item => this.withAuditState(item, item.pluginItem!.installPath)));
     }
 
     private getPluginDirectoryContents(dirPath: string): Promise<SkillTreeItem[]> {
@@ -115,13 +497,13 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
         return Promise.resolve(items);
     }
 
-    private async getSkills(scope: 'user' | 'project', type: 'skill' | 'agent'): Promise<SkillTreeItem[]> {
+    private async getSkills(location: AssetLocation, type: 'skill' | 'agent'): Promise<SkillTreeItem[]> {
         const allSkills = await this.skillManager.getSkills();
-        return allSkills
-            .filter(s => s.scope === scope && s.type === type)
+        return Promise.all(allSkills
+            .filter(s => s.type === type && isSameLocation(s, location))
             .map(s => {
                 const isDir = fs.statSync(s.path).isDirectory();
-                return new SkillTreeItem(
+                const item = new SkillTreeItem(
                     s.name,
                     isDir ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
                     `${s.scope}-${s.type}`, // 'user-skill', 'project-skill', etc.
@@ -129,16 +511,18 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
                     s.type,
                     s
                 );
-            });
+                item.projectFolder = s.projectFolder;
+                return this.withAuditState(item, s.path);
+            }));
     }
 
-    private async getCommands(scope: 'user' | 'project'): Promise<SkillTreeItem[]> {
+    private async getCommands(location: AssetLocation): Promise<SkillTreeItem[]> {
         const allCommands = await this.commandManager.getCommands();
-        return allCommands
-            .filter(c => c.scope === scope)
+        return Promise.all(allCommands
+            .filter(c => isSameLocation(c, location))
             .map(c => {
                 const isDir = fs.existsSync(c.path) && fs.statSync(c.path).isDirectory();
-                return new SkillTreeItem(
+                const item = new SkillTreeItem(
                     c.name,
                     isDir ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
                     `${c.scope}-command`, // 'user-command', 'project-command'
@@ -148,7 +532,9 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
                     undefined,
                     c
                 );
-            });
+                item.projectFolder = c.projectFolder;
+                return this.withAuditState(item, c.path);
+            }));
     }
 
     private getCommandDirectoryContents(dirPath: string, scope: 'user' | 'project'): Promise<SkillTreeItem[]> {
@@ -196,13 +582,47 @@ export class SkillTreeProvider implements vscode.TreeDataProvider<SkillTreeItem>
     }
 }
 
+function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+function formatAge(date: Date): string {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return `${minutes}m ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
 export class SkillTreeItem extends vscode.TreeItem {
+    // Workspace folder of project scope nodes (multi-root workspaces)
+    public projectFolder?: string;
+    // Set on Recently Deleted entries
+    public trashEntry?: TrashEntry;
+    // Set on hook leaves, and on hook event/matcher nodes for their children
+    public hookItem?: HookItem;
+    public hookItems?: HookItem[];
+    // Set on MCP server nodes
+    public mcpServerItem?: McpServerItem;
+    // Set on output style and status line nodes
+    public outputStyleItem?: OutputStyleItem;
+    public statusLineItem?: StatusLineItem;
+    // Set on memory files and their @path imports
+    public memoryFile?: MemoryFile;
+    public memoryImports?: MemoryImport[];
+    public memoryImportSource?: string;  // file containing the import
+    public memoryImportTarget?: string;  // resolved path of the import
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly contextValue: string,
         public readonly scope?: 'user' | 'project',
-        public readonly type?: 'skill' | 'agent' | 'command' | 'plugin',
+        public readonly type?: AssetKind,
         public readonly skillItem?: SkillItem,
         public readonly pluginItem?: PluginItem,
         public readonly commandItem?: CommandItem
@@ -255,6 +675,10 @@ export class SkillTreeItem extends vscode.TreeItem {
                     arguments: [vscode.Uri.file(skillItem!.path)]
                 };
             }
+
+            if (skillItem) {
+                this.applyMetadata(skillItem);
+            }
         } else if (contextValue === 'file' || contextValue === 'plugin-file') {
             this.iconPath = vscode.ThemeIcon.File;
             this.command = {
@@ -266,4 +690,37 @@ export class SkillTreeItem extends vscode.TreeItem {
             this.iconPath = vscode.ThemeIcon.Folder;
         }
     }
+
+    /**
+     * Show frontmatter metadata (description, tools, model) in the tooltip
+     * and flag items whose frontmatter could not be parsed
+     */
+    private applyMetadata(skillItem: SkillItem): void {
+        const metadata = skillItem.metadata;
+        const errors = skillItem.metadataErrors || [];
+
+        if (metadata?.description) {
+            this.description = metadata.description.split('\n')[0];
+        }
+
+        const lines: string[] = [`**${skillItem.type === 'agent' ? 'Agent' : 'Skill'}:** ${metadata?.name || skillItem.name}`];
+        if (metadata?.description) {
+            lines.push(metadata.description);
+        }
+        const tools = metadata?.allowedTools || metadata?.tools;
+        if (tools && tools.length > 0) {
+            lines.push(`**Tools:** ${tools.join(', ')}`);
+        }
+        if (metadata?.model) {
+            lines.push(`**Model:** ${metadata.model}`);
+        }
+        if (errors.length > 0) {
+            lines.push(`**Frontmatter errors:**\n${errors.map(e => `- Line ${e.line + 1}: ${e.message}`).join('\n')}`);
+            this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        }
+        lines.push(`**Path:** ${skillItem.path}`);
+
+        const tooltip = new vscode.MarkdownString(lines.join('\n\n'));
+        this.tooltip = tooltip;
+    }
 }
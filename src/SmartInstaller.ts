@@ -4,6 +4,13 @@ import * as path from 'path';
 import * as cp from 'child_process';
 import * as os from 'os';
 import * as https from 'https';
+import { getUserClaudePath, getProjectRoot, getProjectRoots } from './WorkspacePaths';
+import { AssetLocation, InstallableKind, USER_LOCATION, removePath } from './ClaudeAsset';
+import { SecurityAuditor } from './SecurityAuditor';
+import { EffectivePolicy, getEffectivePolicy, checkSourceOwner, checkAuditResult, describeViolations, policyRequiresAudit } from './InstallPolicy';
+import { getAuditCache } from './AuditCache';
+import { getAuditHistory } from './AuditHistory';
+import { runTransaction } from './Transaction';
 
 export interface ParsedUrl {
     type: 'file' | 'folder' | 'repo' | 'gist' | 'raw';
@@ -15,7 +22,7 @@ export interface ParsedUrl {
     owner?: string;
     repo?: string;
     skillName: string;
-    skillType: 'skill' | 'agent' | 'command' | 'plugin';
+    skillType: InstallableKind;
 }
 
 export interface InstallResult {
@@ -24,11 +31,47 @@ export interface InstallResult {
     error?: string;
 }
 
+/**
+ * Downloaded content waiting in quarantine for commit() or discard()
+ */
+export interface StagedInstall {
+    name: string;
+    type: InstallableKind;
+    stagedPath: string;
+    destPath: string;
+    quarantineDir: string;
+    policy: EffectivePolicy;  // install policy of the destination
+}
+
+/**
+ * Downloads are staged here before they are audited and installed
+ */
+export function getQuarantinePath(): string {
+    return path.join(os.homedir(), '.claude', '.assist-quarantine');
+}
+
+/**
+ * Reduce an untrusted item name to a plain file name without separators or ".."
+ */
+export function toQuarantineName(itemName: string): string {
+    return itemName.replace(/[^a-zA-Z0-9_-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'item';
+}
+
+/**
+ * Create a fresh directory in quarantine for an item
+ */
+export function createQuarantineDir(itemName: string): string {
+    fs.mkdirSync(getQuarantinePath(), { recursive: true });
+    return fs.mkdtempSync(path.join(getQuarantinePath(), `${toQuarantineName(itemName)}-`));
+}
+
 export class SmartInstaller {
     private output: vscode.OutputChannel;
+    private auditor?: SecurityAuditor;
 
-    constructor(output: vscode.OutputChannel) {
+    constructor(output: vscode.OutputChannel, auditor?: SecurityAuditor) {
         this.output = output;
+        this.auditor = auditor;
     }
 
     /**
@@ -186,83 +229,157 @@ export class SmartInstaller {
     }
 
     /**
-     * Install from a parsed URL
+     * Install from a parsed URL. projectFolder selects the workspace folder
+     * for project scope (defaults to the first folder)
      */
-    async install(parsed: ParsedUrl, scope: 'user' | 'project'): Promise<InstallResult> {
-        this.output.appendLine(`SmartInstaller: Installing ${parsed.skillName} (${parsed.type}) to ${scope}`);
-
+    async install(parsed: ParsedUrl, scope: 'user' | 'project', projectFolder?: string): Promise<InstallResult> {
         try {
-            // Use initial type hint for temporary installation
-            const tempDestPath = await this.getDestinationPath(parsed.skillName, parsed.skillType, scope);
+            const staged = await this.stage(parsed, scope, projectFolder);
+            let destPath: string | undefined;
+            try {
+                const audited = await this.enforceAuditPolicy(staged);
+                destPath = await this.commit(staged);
+                if (audited) {
+                    getAuditCache().rename(staged.stagedPath, destPath);
+                    getAuditHistory().rename(staged.stagedPath, destPath);
+                }
+            } finally {
+                // Whatever failed, nothing may stay behind in quarantine
+                if (!destPath) {
+                    if (fs.existsSync(staged.quarantineDir)) {
+                        this.discard(staged);
+                    }
+                    getAuditCache().delete(staged.stagedPath);
+                    getAuditHistory().delete(staged.stagedPath);
+                }
+            }
+            return { success: true, destPath };
+        } catch (error: any) {
+            return { success: false, error: error.message };
+        }
+    }
 
-            if (fs.existsSync(tempDestPath)) {
-                return { success: false, error: `${parsed.skillName} already exists in ${scope}` };
+    /**
+     * Audit staged content for installs without a user in the loop (e.g.
+     * imports); policy violations throw. Returns whether an audit ran.
+     */
+    private async enforceAuditPolicy(staged: StagedInstall): Promise<boolean> {
+        const autoAudit = vscode.workspace.getConfiguration('claudeCodeAssist').get<boolean>('autoAuditOnInstall', true);
+        const required = policyRequiresAudit(staged.policy);
+        if (!required && !autoAudit) {
+            return false;
+        }
+        if (!this.auditor) {
+            if (required) {
+                throw new Error(describeViolations(staged.policy, ['an audit is required but no auditor is available']));
             }
+            return false;
+        }
+
+        const result = await this.auditor.auditPath(staged.stagedPath, staged.name, staged.type);
+        const violations = checkAuditResult(staged.policy, result);
+        if (violations.length > 0) {
+            throw new Error(describeViolations(staged.policy, violations));
+        }
+        return true;
+    }
+
+    /**
+     * Download into a quarantine directory without touching the scope's
+     * .claude folder; commit() moves the content into place
+     */
+    async stage(parsed: ParsedUrl, scope: 'user' | 'project', projectFolder?: string): Promise<StagedInstall> {
+        this.output.appendLine(`SmartInstaller: Staging ${parsed.skillName} (${parsed.type}) for ${scope}`);
+
+        // Use initial type hint to reject duplicates before downloading
+        if (fs.existsSync(await this.getDestinationPath(parsed.skillName, parsed.skillType, scope, projectFolder))) {
+            throw new Error(`${parsed.skillName} already exists in ${scope}`);
+        }
 
-            // Perform installation to temp location
+        const policy = getEffectivePolicy(this.getLocation(scope, projectFolder));
+        const ownerViolation = checkSourceOwner(policy, parsed.owner);
+        if (ownerViolation) {
+            throw new Error(describeViolations(policy, [ownerViolation]));
+        }
+
+        const quarantineDir = createQuarantineDir(parsed.skillName);
+        const stagingPath = path.join(quarantineDir, parsed.skillName);
+
+        try {
             let installResult: InstallResult;
             switch (parsed.type) {
                 case 'file':
                 case 'raw':
-                    installResult = await this.installFile(parsed, tempDestPath);
+                    installResult = await this.installFile(parsed, stagingPath);
                     break;
                 case 'folder':
                 case 'repo':
-                    installResult = await this.installFolder(parsed, tempDestPath);
+                    installResult = await this.installFolder(parsed, stagingPath);
                     break;
                 case 'gist':
-                    installResult = await this.installGist(parsed, tempDestPath);
+                    installResult = await this.installGist(parsed, stagingPath);
                     break;
                 default:
-                    return { success: false, error: `Unknown type: ${parsed.type}` };
+                    throw new Error(`Unknown type: ${parsed.type}`);
             }
 
             if (!installResult.success) {
-                return installResult;
+                throw new Error(installResult.error);
             }
 
             // Detect actual type from downloaded content
-            const installedPath = installResult.destPath!;
-            const isDirectory = fs.statSync(installedPath).isDirectory();
-            const actualType = await this.detectTypeFromContent(installedPath, isDirectory);
-
-            // If type changed, move to correct directory
+            const stagedPath = installResult.destPath!;
+            const isDirectory = fs.statSync(stagedPath).isDirectory();
+            // Output styles are plain markdown with no distinctive layout, so the URL hint wins
+            const actualType = parsed.skillType === 'outputStyle'
+                ? 'outputStyle'
+                : await this.detectTypeFromContent(stagedPath, isDirectory);
             if (actualType !== parsed.skillType) {
                 this.output.appendLine(`SmartInstaller: Content analysis detected type as '${actualType}' (was '${parsed.skillType}')`);
-
-                const correctDestPath = await this.getDestinationPath(parsed.skillName, actualType, scope);
-
-                // Check if target already exists
-                if (fs.existsSync(correctDestPath)) {
-                    // Cleanup the temp installation
-                    if (isDirectory) {
-                        fs.rmSync(installedPath, { recursive: true, force: true });
-                    } else {
-                        fs.unlinkSync(installedPath);
-                    }
-                    return { success: false, error: `${parsed.skillName} already exists in ${scope} as ${actualType}` };
-                }
-
-                // Move to correct location
-                const parentDir = path.dirname(correctDestPath);
-                if (!fs.existsSync(parentDir)) {
-                    fs.mkdirSync(parentDir, { recursive: true });
-                }
-
-                fs.renameSync(installedPath, correctDestPath);
-                this.output.appendLine(`SmartInstaller: Moved to correct directory: ${correctDestPath}`);
-
-                return { success: true, destPath: correctDestPath };
             }
 
-            return installResult;
+            // Keep the file extension the download step chose
+            const containerPath = path.dirname(await this.getDestinationPath(parsed.skillName, actualType, scope, projectFolder));
+            const destPath = path.join(containerPath, path.basename(stagedPath));
+            if (fs.existsSync(destPath)) {
+                throw new Error(`${parsed.skillName} already exists in ${scope} as ${actualType}`);
+            }
 
+            this.output.appendLine(`SmartInstaller: Staged at ${stagedPath}`);
+            return { name: parsed.skillName, type: actualType, stagedPath, destPath, quarantineDir, policy };
         } catch (error: any) {
+            removePath(quarantineDir);
             this.output.appendLine(`SmartInstaller: Install failed: ${error.message}`);
-            return { success: false, error: error.message };
+            throw error;
         }
     }
 
+    /**
+     * Move staged content into place. Returns the installed path.
+     */
+    async commit(staged: StagedInstall): Promise<string> {
+        try {
+            if (fs.existsSync(staged.destPath)) {
+                throw new Error(`${staged.name} already exists at ${staged.destPath}`);
+            }
+            await runTransaction(tx => tx.move(staged.stagedPath, staged.destPath));
+        } catch (error) {
+            this.discard(staged);
+            throw error;
+        }
+        removePath(staged.quarantineDir);
+        this.output.appendLine(`SmartInstaller: Installed to ${staged.destPath}`);
+        return staged.destPath;
+    }
+
+    /**
+     * Delete staged content that will not be installed
+     */
+    discard(staged: StagedInstall): void {
+        removePath(staged.quarantineDir);
+        this.output.appendLine(`SmartInstaller: Discarded staged ${staged.name}`);
+    }
+
     /**
      * Install a single file
      */
@@ -403,31 +520,38 @@ export class SmartInstaller {
         }
     }
 
+    private getLocation(scope: 'user' | 'project', projectFolder?: string): AssetLocation {
+        if (scope === 'user') {
+            return USER_LOCATION;
+        }
+        const root = getProjectRoot(projectFolder) || getProjectRoots()[0];
+        if (!root) {
+            throw new Error('No workspace open');
+        }
+        return { scope: 'project', projectFolder: root.folder.uri.fsPath };
+    }
+
     /**
      * Get the destination path for a skill, agent, command, or plugin
      */
-    private async getDestinationPath(name: string, type: 'skill' | 'agent' | 'command' | 'plugin', scope: 'user' | 'project'): Promise<string> {
-        const config = vscode.workspace.getConfiguration('claudeCodeAssist');
+    private async getDestinationPath(name: string, type: InstallableKind, scope: 'user' | 'project', projectFolder?: string): Promise<string> {
         let destRoot: string;
 
         if (scope === 'user') {
-            destRoot = config.get<string>('globalSkillsPath') || path.join(os.homedir(), '.claude');
-            if (destRoot.startsWith('~')) {
-                destRoot = path.join(os.homedir(), destRoot.slice(1));
-            }
+            destRoot = getUserClaudePath();
         } else {
-            if (!vscode.workspace.workspaceFolders) {
+            const root = getProjectRoot(projectFolder) || getProjectRoots()[0];
+            if (!root) {
                 throw new Error('No workspace open');
             }
-            const projectPathRel = config.get<string>('projectSkillsPath') || './.claude';
-            destRoot = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, projectPathRel);
+            destRoot = root.claudePath;
         }
 
-        // Expanded mapping for all 4 types
         const containerMap: Record<typeof type, string> = {
             'skill': 'skills',
             'agent': 'agents',
             'command': 'commands',
+            'outputStyle': 'output-styles',
             'plugin': 'plugins'
         };
 
@@ -534,10 +658,11 @@ export class SmartInstaller {
      * Initial type detection from URL path (hint only)
      * Final type will be determined by detectTypeFromContent after download
      */
-    private detectSkillType(filePath: string): 'skill' | 'agent' | 'command' | 'plugin' {
+    private detectSkillType(filePath: string): InstallableKind {
         const lower = filePath.toLowerCase();
 
         // Simple keyword detection for initial hint
+        if (/output[-_]?styles?/.test(lower)) return 'outputStyle';
         if (lower.includes('plugin')) return 'plugin';
         if (lower.includes('agent') || lower.includes('subagent')) return 'agent';
         if (lower.includes('command')) return 'command';
@@ -584,7 +709,7 @@ export class SmartInstaller {
      * Detect type from actual directory/file content
      * This is the authoritative detection method used after download
      */
-    private async detectTypeFromContent(contentPath: string, isDirectory: boolean): Promise<'skill' | 'agent' | 'command' | 'plugin'> {
+    private async detectTypeFromContent(contentPath: string, isDirectory: boolean): Promise<InstallableKind> {
         if (!isDirectory) {
             // Single file - use filename as hint
             const filename = path.basename(contentPath.toLowerCase());
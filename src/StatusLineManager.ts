@@ -0,0 +1,123 @@
+import * as cp from 'child_process';
+import * as os from 'os';
+import { ClaudeAsset } from './ClaudeAsset';
+import { SettingsLocation, getSettingsPath, getSettingsLocations, describeSettingsLocation, readSettingsFile } from './SettingsFiles';
+
+/**
+ * The statusLine setting of one settings file. name is the command and path
+ * the settings file.
+ */
+export interface StatusLineItem extends ClaudeAsset {
+    local?: boolean;
+    type: string;
+    command: string;
+    padding?: number;
+}
+
+export interface StatusLinePreview {
+    output: string;
+    stderr: string;
+    exitCode: number | null;
+    durationMs: number;
+}
+
+const PREVIEW_TIMEOUT_MS = 5000;
+
+/**
+ * Reads statusLine from the settings files and runs the command the way
+ * Claude Code does: session JSON on stdin, first stdout line shown
+ */
+export class StatusLineManager {
+    constructor() { }
+
+    public getStatusLines(): StatusLineItem[] {
+        const items: StatusLineItem[] = [];
+        for (const location of getSettingsLocations()) {
+            const settingsPath = getSettingsPath(location);
+            const statusLine = readSettingsFile(settingsPath)?.statusLine as { type?: string; command?: string; padding?: number } | undefined;
+            if (!statusLine || typeof statusLine.command !== 'string') {
+                continue;
+            }
+            items.push({
+                name: statusLine.command,
+                path: settingsPath,
+                scope: location.scope,
+                projectFolder: location.projectFolder,
+                local: location.local,
+                type: statusLine.type || 'command',
+                command: statusLine.command,
+                padding: statusLine.padding
+            });
+        }
+        return items;
+    }
+
+    public describeLocation(location: SettingsLocation): string {
+        return describeSettingsLocation(location);
+    }
+
+    /**
+     * Sample of the session JSON Claude Code pipes to the status line command
+     */
+    public getSamplePayload(cwd: string): object {
+        return {
+            hook_event_name: 'Status',
+            session_id: '00000000-0000-0000-0000-000000000000',
+            transcript_path: `${os.tmpdir()}/claude-transcript-preview.jsonl`,
+            cwd,
+            model: { id: 'claude-sonnet-4-5', display_name: 'Sonnet 4.5' },
+            workspace: { current_dir: cwd, project_dir: cwd },
+            version: '2.0.0',
+            output_style: { name: 'default' },
+            cost: {
+                total_cost_usd: 0.0123,
+                total_duration_ms: 45000,
+                total_api_duration_ms: 2300,
+                total_lines_added: 156,
+                total_lines_removed: 23
+            }
+        };
+    }
+
+    /**
+     * Run the command with the sample payload on stdin
+     */
+    public preview(item: StatusLineItem): Promise<StatusLinePreview> {
+        const cwd = item.projectFolder || os.homedir();
+        const started = Date.now();
+
+        return new Promise((resolve, reject) => {
+            const child = cp.spawn(item.command, {
+                cwd,
+                shell: true,
+                stdio: ['pipe', 'pipe', 'pipe']
+            });
+
+            let stdout = '';
+            let stderr = '';
+            const timer = setTimeout(() => {
+                child.kill();
+                reject(new Error(`Status line command did not finish within ${PREVIEW_TIMEOUT_MS / 1000}s`));
+            }, PREVIEW_TIMEOUT_MS);
+
+            child.stdout.on('data', data => { stdout += data.toString(); });
+            child.stderr.on('data', data => { stderr += data.toString(); });
+            child.stdin.on('error', () => { /* commands that ignore stdin may close it early */ });
+            child.on('error', error => {
+                clearTimeout(timer);
+                reject(error);
+            });
+            child.on('close', exitCode => {
+                clearTimeout(timer);
+                resolve({
+                    output: stdout.split('\n')[0] || '',
+                    stderr: stderr.trim(),
+                    exitCode,
+                    durationMs: Date.now() - started
+                });
+            });
+
+            child.stdin.end(JSON.stringify(this.getSamplePayload(cwd)));
+        });
+    }
+}
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { copyPath, removePath } from './ClaudeAsset';
+import { appendLog } from './OutputLog';
+
+/**
+ * File system steps that either all take effect or are all undone.
+ *
+ * - copies are staged next to their destination and renamed into place
+ * - JSON files are written to a temp file and renamed over the original
+ * - deletions of sources are deferred until commit
+ *
+ * On error every applied step is reverted in reverse order.
+ */
+export class Transaction {
+    private readonly id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    private undoSteps: (() => void)[] = [];
+    private commitSteps: (() => void)[] = [];
+
+    /**
+     * Copy a file or directory tree to dest, which must not exist yet
+     */
+    copy(src: string, dest: string): void {
+        if (fs.existsSync(dest)) {
+            throw new Error(`${dest} already exists`);
+        }
+        fs.mkdirSync(path.dirname(dest), { recursive: true });
+
+        // Stage on the destination device so the final rename is atomic
+        const staging = path.join(path.dirname(dest), `.${path.basename(dest)}.staging-${this.id}`);
+        try {
+            copyPath(src, staging);
+            fs.renameSync(staging, dest);
+        } catch (error) {
+            removePath(staging);
+            throw error;
+        }
+        this.undoSteps.push(() => removePath(dest));
+    }
+
+    /**
+     * Move a file or directory tree. Falls back to a staged copy across
+     * devices, in which case the source is only deleted on commit.
+     */
+    move(src: string, dest: string): void {
+        if (fs.existsSync(dest)) {
+            throw new Error(`${dest} already exists`);
+        }
+        fs.mkdirSync(path.dirname(dest), { recursive: true });
+
+        try {
+            fs.renameSync(src, dest);
+            this.undoSteps.push(() => fs.renameSync(dest, src));
+        } catch (err: unknown) {
+            const error = err as NodeJS.ErrnoException;
+            if (error.code !== 'EXDEV') {
+                throw err;
+            }
+            this.copy(src, dest);
+            this.remove(src);
+        }
+    }
+
+    /**
+     * Delete a path when the transaction commits
+     */
+    remove(target: string): void {
+        this.commitSteps.push(() => removePath(target));
+    }
+
+    /**
+     * Write JSON atomically, restoring the previous content on rollback
+     */
+    writeJson(filePath: string, data: unknown): void {
+        const previous = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+        writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+        this.undoSteps.push(() => {
+            if (previous === undefined) {
+                removePath(filePath);
+            } else {
+                writeFileAtomic(filePath, previous);
+            }
+        });
+    }
+
+    /**
+     * Register a custom undo step for changes made outside the helpers above
+     */
+    onRollback(step: () => void): void {
+        this.undoSteps.push(step);
+    }
+
+    commit(): void {
+        this.undoSteps = [];
+        for (const step of this.commitSteps) {
+            try {
+                step();
+            } catch (error) {
+                // Everything is already in place; a leftover source is not fatal
+                appendLog(`Transaction: cleanup after commit failed: ${error}`);
+            }
+        }
+        this.commitSteps = [];
+    }
+
+    rollback(): void {
+        this.commitSteps = [];
+        while (this.undoSteps.length) {
+            const step = this.undoSteps.pop()!;
+            try {
+                step();
+            } catch (error) {
+                appendLog(`Transaction: rollback step failed: ${error}`);
+            }
+        }
+    }
+}
+
+/**
+ * Run work inside a transaction: commit when it resolves, roll back and
+ * rethrow when it fails
+ */
+export async function runTransaction<T>(work: (tx: Transaction) => T | Promise<T>): Promise<T> {
+    const tx = new Transaction();
+    try {
+        const result = await work(tx);
+        tx.commit();
+        return result;
+    } catch (error) {
+        tx.rollback();
+        throw error;
+    }
+}
+
+/**
+ * Write a file through a temp file in the same directory + rename, so readers
+ * never see a partially written file. A symlinked file is written through to
+ * its target and an existing file keeps its mode.
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+    let targetPath = filePath;
+    let mode: number | undefined;
+    if (fs.existsSync(filePath)) {
+        targetPath = fs.realpathSync(filePath);
+        mode = fs.statSync(targetPath).mode & 0o7777;
+    }
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    const tempPath = `${targetPath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+        fs.writeFileSync(tempPath, content, 'utf-8');
+        if (mode !== undefined) {
+            fs.chmodSync(tempPath, mode);
+        }
+        fs.renameSync(tempPath, targetPath);
+    } catch (error) {
+        removePath(tempPath);
+        throw error;
+    }
+}
+
+export function writeJsonAtomic(filePath: string, data: unknown): void {
+    writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AssetKind, AssetScope, ClaudeAsset, removePath } from './ClaudeAsset';
+import { runTransaction } from './Transaction';
+
+/**
+ * A JSON registration (e.g. a known_marketplaces.json key) removed together
+ * with an asset and written back on restore
+ */
+export interface TrashRegistryEntry {
+    file: string;
+    section?: string;  // object holding the key (e.g. "mcpServers"); the file root when omitted
+    key: string;
+    value: unknown;
+}
+
+export interface TrashEntry {
+    id: string;
+    kind: AssetKind;
+    name: string;
+    originalPath: string;
+    scope: AssetScope;
+    projectFolder?: string;
+    deletedAt: string;
+    hasPayload: boolean;
+    registry?: TrashRegistryEntry;
+}
+
+const META_FILE = 'meta.json';
+const PAYLOAD_DIR = 'payload';
+
+/**
+ * Recoverable trash for deleted assets in ~/.claude/.assist-trash.
+ * Each entry is a folder holding meta.json and the deleted file or folder.
+ */
+export class TrashManager {
+    private trashPath: string;
+
+    constructor() {
+        this.trashPath = path.join(os.homedir(), '.claude', '.assist-trash');
+    }
+
+    public getTrashPath(): string {
+        return this.trashPath;
+    }
+
+    /**
+     * Move an asset into the trash. With keepSource the files are copied
+     * instead, for assets whose removal is done by another tool (claude CLI).
+     * Assets that only exist as a registration (asset.path is the config
+     * file holding them) pass registryOnly.
+     */
+    public async trash(
+        kind: AssetKind,
+        asset: ClaudeAsset,
+        options: { registry?: TrashRegistryEntry; keepSource?: boolean; registryOnly?: boolean } = {}
+    ): Promise<TrashEntry> {
+        const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const entryPath = path.join(this.trashPath, id);
+        const hasPayload = !options.registryOnly && fs.existsSync(asset.path);
+
+        const entry: TrashEntry = {
+            id,
+            kind,
+            name: asset.name,
+            originalPath: asset.path,
+            scope: asset.scope,
+            projectFolder: asset.projectFolder,
+            deletedAt: new Date().toISOString(),
+            hasPayload,
+            registry: options.registry
+        };
+
+        await runTransaction(tx => {
+            tx.onRollback(() => removePath(entryPath));
+            if (hasPayload) {
+                const payloadPath = path.join(entryPath, PAYLOAD_DIR, path.basename(asset.path));
+                if (options.keepSource) {
+                    tx.copy(asset.path, payloadPath);
+                } else {
+                    tx.move(asset.path, payloadPath);
+                }
+            }
+            tx.writeJson(path.join(entryPath, META_FILE), entry);
+        });
+        return entry;
+    }
+
+    /**
+     * Trash entries, most recently deleted first
+     */
+    public list(): TrashEntry[] {
+        if (!fs.existsSync(this.trashPath)) {
+            return [];
+        }
+
+        const entries: TrashEntry[] = [];
+        for (const id of fs.readdirSync(this.trashPath)) {
+            const metaPath = path.join(this.trashPath, id, META_FILE);
+            if (!fs.existsSync(metaPath)) {
+                continue;
+            }
+            try {
+                entries.push(JSON.parse(fs.readFileSync(metaPath, 'utf-8')));
+            } catch (error) {
+                console.error(`Failed to read trash entry ${id}:`, error);
+            }
+        }
+        return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    }
+
+    public get(id: string): TrashEntry | undefined {
+        return this.list().find(entry => entry.id === id);
+    }
+
+    /**
+     * Put an entry back at its original path (and registration) and drop it from the trash
+     */
+    public async restore(id: string): Promise<TrashEntry> {
+        const entry = this.get(id);
+        if (!entry) {
+            throw new Error('Item is no longer in Recently Deleted');
+        }
+
+        if (entry.hasPayload && fs.existsSync(entry.originalPath)) {
+            throw new Error(`${entry.originalPath} already exists`);
+        }
+
+        await runTransaction(tx => {
+            if (entry.hasPayload) {
+                tx.move(path.join(this.trashPath, id, PAYLOAD_DIR, path.basename(entry.originalPath)), entry.originalPath);
+            }
+
+            if (entry.registry) {
+                const { file, section, key, value } = entry.registry;
+                const data = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : {};
+                const container = section ? (data[section] = data[section] || {}) : data;
+                if (container[key]) {
+                    throw new Error(`"${key}" is already registered in ${file}`);
+                }
+                container[key] = value;
+                tx.writeJson(file, data);
+            }
+
+            tx.remove(path.join(this.trashPath, id));
+        });
+        return entry;
+    }
+
+    /**
+     * Permanently delete one entry
+     */
+    public purge(id: string): void {
+        removePath(path.join(this.trashPath, id));
+    }
+
+    /**
+     * Permanently delete every entry
+     */
+    public purgeAll(): void {
+        for (const entry of this.list()) {
+            this.purge(entry.id);
+        }
+    }
+}
+
+/**
+ * Show a delete notification with an Undo action that restores the entry
+ */
+export function showDeletedNotification(entry: TrashEntry | undefined, message: string, onRestored: () => void): void {
+    if (!entry) {
+        vscode.window.showInformationMessage(message);
+        return;
+    }
+    vscode.window.showInformationMessage(message, 'Undo').then(async action => {
+        if (action !== 'Undo') {
+            return;
+        }
+        try {
+            await getTrashManager().restore(entry.id);
+            onRestored();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restore ${entry.name}: ${error}`);
+        }
+    });
+}
+
+// Singleton instance
+let instance: TrashManager | null = null;
+
+export function getTrashManager(): TrashManager {
+    if (!instance) {
+        instance = new TrashManager();
+    }
+    return instance;
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * A workspace folder together with its project-level .claude directory
+ */
+export interface ProjectRoot {
+    folder: vscode.WorkspaceFolder;
+    claudePath: string;
+}
+
+/**
+ * Resolve the user-level Claude directory (claudeCodeAssist.globalSkillsPath)
+ */
+export function getUserClaudePath(): string {
+    const config = vscode.workspace.getConfiguration('claudeCodeAssist');
+    let userPath = config.get<string>('globalSkillsPath') || '~/.claude';
+    if (userPath.startsWith('~')) {
+        userPath = path.join(os.homedir(), userPath.slice(1));
+    }
+    return userPath;
+}
+
+/**
+ * One project root per workspace folder. projectSkillsPath is read with the
+ * folder as configuration scope so each folder can override it.
+ */
+export function getProjectRoots(): ProjectRoot[] {
+    return (vscode.workspace.workspaceFolders || []).map(folder => {
+        const config = vscode.workspace.getConfiguration('claudeCodeAssist', folder.uri);
+        const projectPathRel = config.get<string>('projectSkillsPath') || './.claude';
+        return {
+            folder,
+            claudePath: path.join(folder.uri.fsPath, projectPathRel)
+        };
+    });
+}
+
+/**
+ * Find the project root of a workspace folder by its file system path
+ */
+export function getProjectRoot(folderPath: string | undefined): ProjectRoot | undefined {
+    if (!folderPath) {
+        return undefined;
+    }
+    return getProjectRoots().find(root => root.folder.uri.fsPath === folderPath);
+}
+
+/**
+ * Find the project root whose folder contains the given path
+ */
+export function findProjectRootForPath(filePath: string): ProjectRoot | undefined {
+    const roots = getProjectRoots()
+        .filter(root => {
+            const relative = path.relative(root.folder.uri.fsPath, filePath);
+            return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+        })
+        // Prefer the most specific folder when workspace folders are nested
+        .sort((a, b) => b.folder.uri.fsPath.length - a.folder.uri.fsPath.length);
+    return roots[0];
+}
+
+/**
+ * Pick the target project folder for a move/copy/install.
+ * Returns the only folder without asking; with several folders the one
+ * containing the active editor is offered first.
+ */
+export async function pickProjectRoot(placeHolder = 'Select target workspace folder'): Promise<ProjectRoot | undefined> {
+    const roots = getProjectRoots();
+    if (roots.length === 0) {
+        throw new Error('No workspace folder open');
+    }
+    if (roots.length === 1) {
+        return roots[0];
+    }
+
+    const activeFile = vscode.window.activeTextEditor?.document.uri;
+    const activeRoot = activeFile && activeFile.scheme === 'file' ? findProjectRootForPath(activeFile.fsPath) : undefined;
+    const ordered = activeRoot ? [activeRoot, ...roots.filter(r => r !== activeRoot)] : roots;
+
+    const picked = await vscode.window.showQuickPick(
+        ordered.map(root => ({
+            label: root.folder.name,
+            description: root === activeRoot ? 'active editor' : undefined,
+            detail: root.claudePath,
+            root
+        })),
+        { placeHolder }
+    );
+    return picked?.root;
+}
+
+/**
+ * Display label of a project scope node/item ("Project" or "Project: api")
+ */
+export function getProjectLabel(folderPath: string | undefined): string {
+    if (getProjectRoots().length <= 1 || !folderPath) {
+        return 'Project';
+    }
+    const root = getProjectRoot(folderPath);
+    return `Project: ${root ? root.folder.name : path.basename(folderPath)}`;
+}
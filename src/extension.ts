@@ -8,17 +8,39 @@ import { PluginManager } from './PluginManager';
 import { CommandManager } from './CommandManager';
 import { SkillTreeProvider, SkillTreeItem } from './SkillTreeProvider';
 import { MarketplacePanel } from './MarketplacePanel';
-import { MarketplaceManager } from './MarketplaceManager';
+import { MarketplaceManager, MarketplaceSource } from './MarketplaceManager';
 import { MarketplaceConfigPanel } from './MarketplaceConfigPanel';
-import { SecurityAuditor, AuditResult } from './SecurityAuditor';
+import { SecurityAuditor, AuditResult, AuditTarget, SecurityIssue, issuesAtOrAbove, getSeverityThreshold } from './SecurityAuditor';
+import { EffectivePolicy, getEffectivePolicy, checkSourceOwner, checkAuditResult, describeViolations, getGitHubOwner, policyRequiresAudit } from './InstallPolicy';
 import { AuditResultPanel } from './AuditResultPanel';
-import { SmartInstaller, ParsedUrl } from './SmartInstaller';
+import { exportAuditReport } from './AuditReportExporter';
+import { SmartInstaller, ParsedUrl, StagedInstall, createQuarantineDir, toQuarantineName } from './SmartInstaller';
 import { ClipboardWatcher } from './ClipboardWatcher';
 import { UpdateChecker } from './UpdateChecker';
 import { ImportExport } from './ImportExport';
+import { FrontmatterValidator } from './FrontmatterValidator';
+import { ClaudeFileWatcher } from './ClaudeFileWatcher';
+import { HookManager, HookLocation } from './HookManager';
+import { HookEditorPanel } from './HookEditorPanel';
+import { McpManager, McpServerConfig, McpTransport } from './McpManager';
+import { PermissionManager } from './PermissionManager';
+import { MemoryManager } from './MemoryManager';
+import { OutputStyleManager } from './OutputStyleManager';
+import { StatusLineManager } from './StatusLineManager';
+import { PermissionsPanel } from './PermissionsPanel';
+import { getUserClaudePath, getProjectRoots, pickProjectRoot } from './WorkspacePaths';
+import { getTrashManager, showDeletedNotification } from './TrashManager';
+import { getAuditCache } from './AuditCache';
+import { setOutputChannel } from './OutputLog';
+import { getAuditHistory } from './AuditHistory';
+import { AuditDiagnostics } from './AuditDiagnostics';
+import { AUDIT_BACKEND_IDS, AuditBackendId, getAuditBackendIds, getAuditCommand } from './AuditBackends';
+import { BaselineEntry, getAuditBaseline } from './AuditBaseline';
+import { ASSET_KINDS, AssetKind, AssetLocation, AssetScope, AssetTransferer, InstallableKind, TransferMode, USER_LOCATION, describeLocation, getAssetLocations, projectLocation, removePath } from './ClaudeAsset';
 
 export function activate(context: vscode.ExtensionContext) {
     const output = vscode.window.createOutputChannel('Claude Code Assist');
+    setOutputChannel(output);
     output.appendLine('Claude Code Assist: activate');
     console.log('Claude Code Assist: activate');
 
@@ -26,12 +48,23 @@ export function activate(context: vscode.ExtensionContext) {
     const pluginManager = new PluginManager();
     const commandManager = new CommandManager();
     const marketplaceManager = new MarketplaceManager();
-    const skillTreeProvider = new SkillTreeProvider(skillManager, pluginManager, commandManager);
+    const hookManager = new HookManager();
+    const mcpManager = new McpManager();
+    const permissionManager = new PermissionManager();
+    const memoryManager = new MemoryManager();
+    const outputStyleManager = new OutputStyleManager();
+    const statusLineManager = new StatusLineManager();
+    const skillTreeProvider = new SkillTreeProvider(
+        skillManager, pluginManager, commandManager, hookManager, mcpManager, memoryManager, outputStyleManager, statusLineManager
+    );
     const securityAuditor = new SecurityAuditor(output);
-    const smartInstaller = new SmartInstaller(output);
+    const smartInstaller = new SmartInstaller(output, securityAuditor);
     const clipboardWatcher = new ClipboardWatcher(smartInstaller, output);
     const updateChecker = new UpdateChecker(output);
     const importExport = new ImportExport(output, skillManager, smartInstaller);
+    const fileWatcher = new ClaudeFileWatcher(pluginManager, output);
+    const frontmatterValidator = new FrontmatterValidator(skillManager, commandManager, fileWatcher, output);
+    const auditDiagnostics = new AuditDiagnostics();
 
     // Start clipboard watcher if enabled
     const config = vscode.workspace.getConfiguration('claudeCodeAssist');
@@ -56,6 +89,53 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(clipboardWatcher);
 
+    // Watch .claude directories so the tree and diagnostics follow external changes
+    fileWatcher.start();
+    context.subscriptions.push(fileWatcher, frontmatterValidator);
+    context.subscriptions.push(
+        fileWatcher.onDidChange(change => skillTreeProvider.refreshCategory(change.scope, change.category, change.projectFolder)),
+        // Settings file changes are reported as hook changes
+        fileWatcher.onDidChange(change => {
+            if (change.category === 'hook') {
+                PermissionsPanel.refreshIfOpen();
+            }
+        }),
+        // Audit badges in the tree follow new results and accepted findings
+        getAuditCache().onDidUpdate(() => skillTreeProvider.refresh()),
+        getAuditBaseline().onDidChange(() => skillTreeProvider.refresh()),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('claudeCodeAssist.globalSkillsPath') ||
+                e.affectsConfiguration('claudeCodeAssist.projectSkillsPath')) {
+                fileWatcher.start();
+                skillTreeProvider.refresh();
+                frontmatterValidator.scheduleValidation();
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            fileWatcher.start();
+            skillTreeProvider.refresh();
+            frontmatterValidator.scheduleValidation();
+        })
+    );
+    frontmatterValidator.scheduleValidation();
+
+    // Audit findings show up as problems in the audited files
+    context.subscriptions.push(
+        auditDiagnostics,
+        securityAuditor.onDidAudit(result => auditDiagnostics.publish(result)),
+        securityAuditor.onDidAudit(result => {
+            try {
+                getAuditHistory().record(result);
+            } catch (error) {
+                output.appendLine(`Failed to record audit history: ${error}`);
+            }
+        }),
+        vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, auditDiagnostics, {
+            providedCodeActionKinds: AuditDiagnostics.providedCodeActionKinds
+        })
+    );
+    auditDiagnostics.loadCachedResults();
+
     vscode.window.registerTreeDataProvider('claudeSkills', skillTreeProvider);
     output.appendLine('Registered tree data provider');
 
@@ -69,57 +149,91 @@ export function activate(context: vscode.ExtensionContext) {
         if (node.skillItem) {
             const answer = await vscode.window.showWarningMessage(`Are you sure you want to delete ${node.label}?`, 'Yes', 'No');
             if (answer === 'Yes') {
-                await skillManager.deleteSkill(node.skillItem);
+                const trashEntry = await skillManager.deleteSkill(node.skillItem);
                 skillTreeProvider.refresh();
                 output.appendLine(`Deleted skill ${node.label} `);
+                showDeletedNotification(trashEntry, `Deleted ${node.label}`, () => skillTreeProvider.refresh());
             }
         }
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveToUser', async (node: SkillTreeItem) => {
-        output.appendLine('Command: moveToUser');
-        if (node.skillItem && node.scope === 'project') {
-            // Ask user if they want to Move or Copy
-            const action = await vscode.window.showQuickPick(['Copy to User', 'Move to User'], { placeHolder: 'Select action' });
-            if (!action) { return; }
-
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.restoreDeleted', async (node: SkillTreeItem) => {
+        output.appendLine('Command: restoreDeleted');
+        if (node?.trashEntry) {
             try {
-                if (action === 'Move to User') {
-                    await skillManager.moveToUser(node.skillItem);
-                    vscode.window.showInformationMessage(`Moved ${node.label} to User`);
-                    output.appendLine(`Moved ${node.label} to user`);
-                } else {
-                    await skillManager.copyToUser(node.skillItem);
-                    vscode.window.showInformationMessage(`Copied ${node.label} to User`);
-                    output.appendLine(`Copied ${node.label} to user`);
-                }
+                await getTrashManager().restore(node.trashEntry.id);
                 skillTreeProvider.refresh();
+                MarketplaceConfigPanel.refreshIfOpen();
+                vscode.window.showInformationMessage(`Restored ${node.trashEntry.name}`);
+                output.appendLine(`Restored ${node.trashEntry.name} to ${node.trashEntry.originalPath}`);
             } catch (error) {
-                vscode.window.showErrorMessage(`Failed to ${action === 'Move to User' ? 'move' : 'copy'} skill: ${error}`);
+                vscode.window.showErrorMessage(`Failed to restore ${node.trashEntry.name}: ${error}`);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.purgeDeleted', async (node: SkillTreeItem) => {
+        output.appendLine('Command: purgeDeleted');
+        if (node?.trashEntry) {
+            const answer = await vscode.window.showWarningMessage(
+                `Permanently delete ${node.trashEntry.name}? This cannot be undone.`, { modal: true }, 'Delete Permanently');
+            if (answer === 'Delete Permanently') {
+                getTrashManager().purge(node.trashEntry.id);
+                skillTreeProvider.refresh();
+                output.appendLine(`Purged ${node.trashEntry.name}`);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.emptyTrash', async () => {
+        output.appendLine('Command: emptyTrash');
+        const count = getTrashManager().list().length;
+        if (count === 0) { return; }
+        const answer = await vscode.window.showWarningMessage(
+            `Permanently delete ${count} item(s) in Recently Deleted? This cannot be undone.`, { modal: true }, 'Empty');
+        if (answer === 'Empty') {
+            getTrashManager().purgeAll();
+            skillTreeProvider.refresh();
+            output.appendLine(`Emptied Recently Deleted (${count} items)`);
+        }
+    }));
+
+    // Shared Copy/Move flow of the scope transfer commands of every asset kind
+    async function transferTreeAsset<T>(node: SkillTreeItem, manager: AssetTransferer<T>, item: T, kind: AssetKind, targetScope: AssetScope) {
+        const scopeLabel = targetScope === 'user' ? 'User' : 'Project';
+        const action = await vscode.window.showQuickPick([`Copy to ${scopeLabel}`, `Move to ${scopeLabel}`], { placeHolder: 'Select action' });
+        if (!action) { return; }
+        const mode: TransferMode = action.startsWith('Move') ? 'move' : 'copy';
+
+        try {
+            let target = USER_LOCATION;
+            if (targetScope === 'project') {
+                const root = await pickProjectRoot();
+                if (!root) { return; }
+                target = projectLocation(root);
             }
+
+            await manager.transfer(item, target, mode);
+            const verb = mode === 'move' ? 'Moved' : 'Copied';
+            vscode.window.showInformationMessage(`${verb} ${node.label} to ${describeLocation(target)}`);
+            output.appendLine(`${verb} ${kind} ${node.label} to ${describeLocation(target)}`);
+            skillTreeProvider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${mode} ${ASSET_KINDS[kind].label.toLowerCase()}: ${error}`);
+        }
+    }
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveToUser', async (node: SkillTreeItem) => {
+        output.appendLine('Command: moveToUser');
+        if (node.skillItem && node.scope === 'project') {
+            await transferTreeAsset(node, skillManager, node.skillItem, node.skillItem.type, 'user');
         }
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveToProject', async (node: SkillTreeItem) => {
         output.appendLine('Command: moveToProject');
         if (node.skillItem && node.scope === 'user') {
-            const action = await vscode.window.showQuickPick(['Copy to Project', 'Move to Project'], { placeHolder: 'Select action' });
-            if (!action) { return; }
-
-            try {
-                if (action === 'Move to Project') {
-                    await skillManager.moveToProject(node.skillItem);
-                    vscode.window.showInformationMessage(`Moved ${node.label} to Project`);
-                    output.appendLine(`Moved ${node.label} to project`);
-                } else {
-                    await skillManager.copyToProject(node.skillItem);
-                    vscode.window.showInformationMessage(`Copied ${node.label} to Project`);
-                    output.appendLine(`Copied ${node.label} to project`);
-                }
-                skillTreeProvider.refresh();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to ${action === 'Move to Project' ? 'move' : 'copy'} skill: ${error}`);
-            }
+            await transferTreeAsset(node, skillManager, node.skillItem, node.skillItem.type, 'project');
         }
     }));
 
@@ -133,6 +247,11 @@ export function activate(context: vscode.ExtensionContext) {
         MarketplaceConfigPanel.createOrShow(context.extensionUri, marketplaceManager);
     }));
 
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.openPermissions', () => {
+        output.appendLine('Command: openPermissions');
+        PermissionsPanel.createOrShow(permissionManager);
+    }));
+
     // Smart Install: Install from URL command
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.installFromUrl', async () => {
         output.appendLine('Command: installFromUrl');
@@ -189,6 +308,19 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         const targetScope = scope.toLowerCase() as 'user' | 'project';
+        let projectFolder: string | undefined;
+        if (targetScope === 'project') {
+            try {
+                const root = await pickProjectRoot(`Install "${parsed.skillName}" to workspace folder...`);
+                if (!root) {
+                    return;
+                }
+                projectFolder = root.folder.uri.fsPath;
+            } catch (error) {
+                vscode.window.showErrorMessage(`Install failed: ${error}`);
+                return;
+            }
+        }
 
         // Allow user to customize name
         const customName = await vscode.window.showInputBox({
@@ -212,32 +344,118 @@ export function activate(context: vscode.ExtensionContext) {
         // Update parsed name if customized
         parsed.skillName = customName;
 
-        // Install with progress
-        await vscode.window.withProgress({
+        // Download into quarantine first so nothing unaudited lands in .claude
+        let staged: StagedInstall;
+        try {
+            staged = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Downloading ${parsed.skillName}...`,
+                cancellable: false
+            }, () => smartInstaller.stage(parsed, targetScope, projectFolder));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Install failed: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        const autoAudit = vscode.workspace.getConfiguration('claudeCodeAssist').get<boolean>('autoAuditOnInstall', true);
+        const stagedAudit = isStagedAudit(staged.policy);
+        let approved: boolean;
+        try {
+            approved = !stagedAudit || await approveStagedInstall(staged.stagedPath, staged.name, staged.type, staged.policy);
+        } catch (error) {
+            approved = false;
+            vscode.window.showErrorMessage(`Install failed: ${error instanceof Error ? error.message : error}`);
+        }
+        if (!approved) {
+            smartInstaller.discard(staged);
+            getAuditCache().delete(staged.stagedPath);
+            getAuditHistory().delete(staged.stagedPath);
+            vscode.window.showInformationMessage(`Cancelled installation of ${staged.name}.`);
+            return;
+        }
+
+        let destPath: string;
+        try {
+            destPath = await smartInstaller.commit(staged);
+        } catch (error) {
+            getAuditCache().delete(staged.stagedPath);
+            getAuditHistory().delete(staged.stagedPath);
+            vscode.window.showErrorMessage(`Install failed: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        getAuditCache().rename(staged.stagedPath, destPath);
+        getAuditHistory().rename(staged.stagedPath, destPath);
+
+        vscode.window.showInformationMessage(`Installed ${parsed.skillName} to ${scope}`);
+        skillTreeProvider.refresh();
+
+        // Without staging, the audit runs on the installed copy
+        if (autoAudit && !stagedAudit) {
+            triggerPostInstallAudit(destPath, staged.name, staged.type);
+        }
+    }
+
+    // A policy that requires audits or blocks findings forces the pre-install audit regardless of settings
+    function isStagedAudit(policy: EffectivePolicy): boolean {
+        const auditConfig = vscode.workspace.getConfiguration('claudeCodeAssist');
+        return policyRequiresAudit(policy) ||
+            (auditConfig.get<boolean>('autoAuditOnInstall', true) && auditConfig.get<boolean>('stagedInstall', true));
+    }
+
+    // Audit content that is not installed yet; false when the install should not go ahead
+    async function approveStagedInstall(stagedPath: string, itemName: string, itemType: InstallableKind, policy: EffectivePolicy): Promise<boolean> {
+        const result = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Installing ${parsed.skillName}...`,
+            title: `Security audit: ${itemName}...`,
             cancellable: false
-        }, async () => {
-            const result = await smartInstaller.install(parsed, targetScope);
+        }, () => securityAuditor.auditPath(stagedPath, itemName, itemType));
 
-            if (result.success) {
-                vscode.window.showInformationMessage(`Installed ${parsed.skillName} to ${scope}`);
-                skillTreeProvider.refresh();
+        // Policy violations cannot be overridden from the panel
+        const violations = checkAuditResult(policy, result);
+        if (violations.length > 0) {
+            AuditResultPanel.createOrShow(context.extensionUri, [result]);
+            vscode.window.showErrorMessage(`${itemName} was not installed. ${describeViolations(policy, violations)}`);
+            return false;
+        }
 
-                // Trigger post-install audit if enabled
-                const autoAudit = vscode.workspace.getConfiguration('claudeCodeAssist')
-                    .get<boolean>('autoAuditOnInstall', true);
-                if (autoAudit && result.destPath) {
-                    triggerPostInstallAudit(result.destPath, parsed.skillName, parsed.skillType);
-                }
-            } else {
-                vscode.window.showErrorMessage(`Install failed: ${result.error}`);
-            }
-        });
+        if (result.status === 'error') {
+            return AuditResultPanel.confirmInstall(context.extensionUri, result, `The security audit of ${itemName} failed`);
+        }
+
+        // Findings at or above the threshold hold the install until the user decides
+        const threshold = getSeverityThreshold();
+        const blocking = issuesAtOrAbove(result.issues, threshold);
+        if (blocking.length > 0) {
+            return AuditResultPanel.confirmInstall(
+                context.extensionUri,
+                result,
+                `${blocking.length} finding${blocking.length !== 1 ? 's' : ''} at or above ${threshold} severity in ${itemName}`
+            );
+        }
+
+        output.appendLine(`${itemName} passed pre-install audit.`);
+        return true;
+    }
+
+    // Stage downloaded text as a file in quarantine and audit it before it is saved
+    async function approveContent(content: string, itemName: string, itemType: InstallableKind, policy: EffectivePolicy): Promise<boolean> {
+        if (!isStagedAudit(policy)) {
+            return true;
+        }
+        const quarantineDir = createQuarantineDir(itemName);
+        const stagedFile = path.join(quarantineDir, `${toQuarantineName(itemName)}.md`);
+        try {
+            fs.writeFileSync(stagedFile, content, 'utf-8');
+            return await approveStagedInstall(stagedFile, itemName, itemType, policy);
+        } finally {
+            removePath(quarantineDir);
+            getAuditCache().delete(stagedFile);
+            getAuditHistory().delete(stagedFile);
+        }
     }
 
     // Helper function for post-install audit
-    async function triggerPostInstallAudit(destPath: string, itemName: string, itemType: 'skill' | 'agent' | 'command' | 'plugin') {
+    async function triggerPostInstallAudit(destPath: string, itemName: string, itemType: InstallableKind) {
         setTimeout(async () => {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
@@ -285,9 +503,19 @@ export function activate(context: vscode.ExtensionContext) {
         const targetScope = scope.toLowerCase() as 'user' | 'project';
 
         try {
+            const projectRoot = targetScope === 'project' ? await pickProjectRoot() : undefined;
+            if (targetScope === 'project' && !projectRoot) { return; }
+            const projectFolder = projectRoot?.folder.uri.fsPath;
+
+            const policy = getEffectivePolicy(projectRoot ? projectLocation(projectRoot) : USER_LOCATION);
+
             // If skill has a URL, fetch content from there
             if (skill.url) {
                 output.appendLine(`Processing URL: ${skill.url}`);
+                const ownerViolation = checkSourceOwner(policy, getGitHubOwner(skill.url));
+                if (ownerViolation) {
+                    throw new Error(describeViolations(policy, [ownerViolation]));
+                }
                 let fetchUrl = skill.url;
 
                 // Handle GitHub URLs
@@ -329,7 +557,12 @@ export function activate(context: vscode.ExtensionContext) {
                                 });
                             }).on('error', (err: any) => reject(err));
                         });
-                        await skillManager.saveSkill(skill.name, content, skill.type, targetScope);
+
+                        if (!await approveContent(content, skill.name, skill.type, policy)) {
+                            vscode.window.showInformationMessage(`Cancelled download of ${skill.name}.`);
+                            return;
+                        }
+                        await skillManager.saveSkill(skill.name, content, skill.type, targetScope, projectFolder);
                     }
                     // Case 2: Tree URL (Folder) or Repo Root -> Git Clone
                     else {
@@ -397,18 +630,18 @@ export function activate(context: vscode.ExtensionContext) {
                                 }
                             }
 
-                            // Determine destination
-                            const config = vscode.workspace.getConfiguration('claudeCodeAssist');
-                            let destRoot = '';
-                            if (targetScope === 'user') {
-                                destRoot = config.get<string>('globalSkillsPath') || path.join(os.homedir(), '.claude');
-                                if (destRoot.startsWith('~')) { destRoot = path.join(os.homedir(), destRoot.slice(1)); }
-                            } else {
-                                if (!vscode.workspace.workspaceFolders) { throw new Error('No workspace open'); }
-                                const projectPathRel = config.get<string>('projectSkillsPath') || './.claude';
-                                destRoot = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, projectPathRel);
+                            // The clone is still in a temp directory, so audit it before copying
+                            const stagedAudit = isStagedAudit(policy);
+                            if (stagedAudit && !await approveStagedInstall(sourcePath, skill.name, skill.type, policy)) {
+                                getAuditCache().delete(sourcePath);
+                                getAuditHistory().delete(sourcePath);
+                                vscode.window.showInformationMessage(`Cancelled download of ${skill.name}.`);
+                                return;
                             }
 
+                            // Determine destination
+                            const destRoot = projectRoot ? projectRoot.claudePath : getUserClaudePath();
+
                             const destContainer = path.join(destRoot, skill.type === 'skill' ? 'skills' : 'agents');
                             // Ensure destination parent exists
                             if (!fs.existsSync(destContainer)) { fs.mkdirSync(destContainer, { recursive: true }); }
@@ -455,10 +688,14 @@ export function activate(context: vscode.ExtensionContext) {
                             }
 
                             output.appendLine(`Installed to ${destPath}`);
+                            if (stagedAudit) {
+                                getAuditCache().rename(sourcePath, destPath);
+                                getAuditHistory().rename(sourcePath, destPath);
+                            }
 
                             // Trigger post-install security audit
                             const autoAudit = config.get<boolean>('autoAuditOnInstall', true);
-                            if (autoAudit) {
+                            if (autoAudit && !stagedAudit) {
                                 // Schedule audit after download completes
                                 setTimeout(async () => {
                                     await vscode.window.withProgress({
@@ -510,10 +747,14 @@ export function activate(context: vscode.ExtensionContext) {
                     throw new Error('Only GitHub URLs are supported for now');
                 }
             } else if (skill.content) {
-                await skillManager.saveSkill(skill.name, skill.content, skill.type, targetScope);
+                if (!await approveContent(skill.content, skill.name, skill.type, policy)) {
+                    vscode.window.showInformationMessage(`Cancelled download of ${skill.name}.`);
+                    return;
+                }
+                await skillManager.saveSkill(skill.name, skill.content, skill.type, targetScope, projectFolder);
             } else {
                 const content = '# ' + skill.name + '\n\n' + skill.description;
-                await skillManager.saveSkill(skill.name, content, skill.type, targetScope);
+                await skillManager.saveSkill(skill.name, content, skill.type, targetScope, projectFolder);
             }
 
             vscode.window.showInformationMessage(`Downloaded ${skill.name} to ${scope}`);
@@ -560,38 +801,57 @@ export function activate(context: vscode.ExtensionContext) {
     }));
 
     // Security Audit Commands
-    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditAll', async () => {
+    // backends is set by auditAllWithBackends; menus pass no arguments
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditAll', async (backends?: AuditBackendId[]) => {
         output.appendLine('Command: auditAll');
+        if (!Array.isArray(backends)) {
+            backends = undefined;
+        }
 
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Security Audit',
-            cancellable: false
-        }, async (progress) => {
+            cancellable: true
+        }, async (progress, token) => {
             progress.report({ message: 'Loading items to audit...' });
 
-            const skills = await skillManager.getSkills();
-            const plugins = await pluginManager.getPlugins();
-
-            if (skills.length === 0 && plugins.length === 0) {
-                vscode.window.showInformationMessage('No skills or plugins to audit.');
+            const targets: AuditTarget[] = [
+                ...await skillManager.getSkills(),
+                ...(await commandManager.getCommands()).map(command => ({ name: command.name, path: command.path, type: 'command' as const })),
+                ...(await outputStyleManager.getOutputStyles()).map(style => ({ name: style.name, path: style.path, type: 'outputStyle' as const })),
+                ...(await pluginManager.getPlugins()).map(plugin => ({ name: plugin.name, path: plugin.installPath, type: 'plugin' as const })),
+                ...(await marketplaceManager.getMarketplaces())
+                    .filter(marketplace => fs.existsSync(marketplace.installLocation))
+                    .map(marketplace => ({ name: marketplace.name, path: marketplace.installLocation, type: 'marketplace' as const }))
+            ];
+
+            if (targets.length === 0) {
+                vscode.window.showInformationMessage('No skills, commands, plugins or marketplaces to audit.');
                 return;
             }
 
+            // Results are added to the panel as each audit completes
+            AuditResultPanel.createOrShow(context.extensionUri, []);
+
             const results: AuditResult[] = await securityAuditor.auditAll(
-                skills,
-                plugins,
+                targets,
                 (auditProgress) => {
-                    const percent = Math.round((auditProgress.current / auditProgress.total) * 100);
                     progress.report({
                         message: `(${auditProgress.current}/${auditProgress.total}) ${auditProgress.currentItem}`,
                         increment: 100 / auditProgress.total
                     });
+                },
+                {
+                    token,
+                    backends,
+                    onResult: result => AuditResultPanel.currentPanel?.addResult(result)
                 }
             );
 
-            // Show results in WebView
-            AuditResultPanel.createOrShow(context.extensionUri, results);
+            if (token.isCancellationRequested) {
+                vscode.window.showInformationMessage(`Security audit cancelled after ${results.length} of ${targets.length} items.`);
+                return;
+            }
 
             // Show summary notification
             const dangerCount = results.filter(r => r.status === 'danger').length;
@@ -621,6 +881,26 @@ export function activate(context: vscode.ExtensionContext) {
         });
     }));
 
+    // Audit everything once with backends picked for this run
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditAllWithBackends', async () => {
+        output.appendLine('Command: auditAllWithBackends');
+
+        const configured = getAuditBackendIds();
+        const descriptions: Record<AuditBackendId, string> = {
+            heuristic: 'Offline heuristic rules',
+            claude: 'Claude CLI audit',
+            command: !vscode.workspace.isTrusted ? 'Skipped in untrusted workspaces' : getAuditCommand() || 'No auditCommand configured'
+        };
+        const picked = await vscode.window.showQuickPick(
+            AUDIT_BACKEND_IDS.map(id => ({ label: id, description: descriptions[id], picked: configured.includes(id), id })),
+            { canPickMany: true, placeHolder: 'Select the audit backends to run and merge' }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        await vscode.commands.executeCommand('claude-code-assist.auditAll', picked.map(item => item.id));
+    }));
+
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditSkill', async (node: SkillTreeItem) => {
         output.appendLine('Command: auditSkill');
 
@@ -659,15 +939,211 @@ export function activate(context: vscode.ExtensionContext) {
         });
     }));
 
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditOutputStyle', async (node: SkillTreeItem) => {
+        output.appendLine('Command: auditOutputStyle');
+
+        const style = node.outputStyleItem;
+        if (!style) {
+            vscode.window.showErrorMessage('No output style selected for audit.');
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Auditing ${style.name}...`,
+            cancellable: false
+        }, async () => {
+            const result = await securityAuditor.auditPath(style.path, style.name, 'outputStyle');
+            AuditResultPanel.createOrShow(context.extensionUri, [result]);
+            showAuditNotification(result);
+        });
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditCommand', async (node: SkillTreeItem) => {
+        output.appendLine('Command: auditCommand');
+
+        const command = node?.commandItem;
+        if (!command) {
+            vscode.window.showErrorMessage('No command selected for audit.');
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Auditing ${command.name}...`,
+            cancellable: false
+        }, async () => {
+            const result = await securityAuditor.auditPath(command.path, command.name, 'command');
+            AuditResultPanel.createOrShow(context.extensionUri, [result]);
+            showAuditNotification(result);
+        });
+    }));
+
+    // Audits the local clone of a marketplace; picks one when run from the command palette
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.auditMarketplace', async (marketplace?: MarketplaceSource) => {
+        output.appendLine('Command: auditMarketplace');
+
+        if (!marketplace) {
+            const marketplaces = await marketplaceManager.getMarketplaces();
+            if (marketplaces.length === 0) {
+                vscode.window.showInformationMessage('No marketplaces configured.');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                marketplaces.map(m => ({ label: m.name, description: describeLocation(m), detail: m.installLocation, marketplace: m })),
+                { placeHolder: 'Select a marketplace to audit' }
+            );
+            if (!picked) {
+                return;
+            }
+            marketplace = picked.marketplace;
+        }
+
+        if (!fs.existsSync(marketplace.installLocation)) {
+            vscode.window.showErrorMessage(`Marketplace "${marketplace.name}" has not been downloaded to ${marketplace.installLocation}.`);
+            return;
+        }
+
+        const target = marketplace;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Auditing marketplace ${target.name}...`,
+            cancellable: false
+        }, async () => {
+            const result = await securityAuditor.auditPath(target.installLocation, target.name, 'marketplace');
+            AuditResultPanel.createOrShow(context.extensionUri, [result]);
+            showAuditNotification(result);
+        });
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.exportAuditReport', async () => {
+        output.appendLine('Command: exportAuditReport');
+        await exportAuditReport(AuditResultPanel.currentPanel?.getResults() || [], context.extension.packageJSON.version);
+    }));
+
+    // Review accepted findings of a scope and prune the selected ones
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.reviewAuditBaseline', async () => {
+        output.appendLine('Command: reviewAuditBaseline');
+
+        const baseline = getAuditBaseline();
+        const locations = getAssetLocations().filter(location => baseline.getEntries(location).length > 0);
+        if (locations.length === 0) {
+            vscode.window.showInformationMessage('No accepted audit findings. Accept findings from the audit results or the Problems panel.');
+            return;
+        }
+
+        let location = locations[0];
+        if (locations.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                locations.map(l => ({ label: describeLocation(l), description: `${baseline.getEntries(l).length} accepted`, location: l })),
+                { placeHolder: 'Select the audit baseline to review' }
+            );
+            if (!picked) {
+                return;
+            }
+            location = picked.location;
+        }
+
+        // Findings that are gone are preselected for removal
+        const items = baseline.getEntries(location).map(entry => {
+            const stale = baseline.isStale(location, entry, getAuditCache().getResult(baseline.resolveItemPath(location, entry)));
+            return {
+                label: entry.type,
+                description: entry.file ? `${entry.item} › ${entry.file}` : entry.item,
+                detail: `${stale ? 'No longer reported. ' : ''}${entry.description ? `${entry.description}. ` : ''}Accepted ${new Date(entry.acceptedAt).toLocaleDateString()}`,
+                picked: stale,
+                entry
+            };
+        });
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: `Select accepted findings to remove from ${baseline.getBaselinePath(location)}`
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const removed: BaselineEntry[] = selected.map(item => item.entry);
+        try {
+            baseline.remove(location, removed);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update audit baseline: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        const action = await vscode.window.showInformationMessage(
+            `Removed ${removed.length} accepted finding${removed.length !== 1 ? 's' : ''} from the audit baseline.`,
+            'Open Baseline'
+        );
+        if (action === 'Open Baseline') {
+            vscode.window.showTextDocument(vscode.Uri.file(baseline.getBaselinePath(location)));
+        }
+    }));
+
+    // Code actions of audit diagnostics
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.showAuditDetails', (itemPath: string) => {
+        const result = auditDiagnostics.getResult(itemPath);
+        if (result) {
+            AuditResultPanel.createOrShow(context.extensionUri, [result]);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.suppressAuditFinding', (itemPath: string, issue: SecurityIssue) => {
+        output.appendLine('Command: suppressAuditFinding');
+
+        const result = auditDiagnostics.getResult(itemPath);
+        if (!result) {
+            return;
+        }
+        const baseline = getAuditBaseline();
+        if (!baseline.canAccept(itemPath)) {
+            vscode.window.showWarningMessage('Accepting findings of project items requires a trusted workspace.');
+            return;
+        }
+        try {
+            baseline.accept(result, [issue]);
+            output.appendLine(`Accepted ${issue.type} in ${itemPath} (${baseline.getBaselinePath(baseline.getLocation(itemPath))})`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update audit baseline: ${error instanceof Error ? error.message : error}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.reauditItem', async (itemPath: string) => {
+        output.appendLine('Command: reauditItem');
+
+        const previous = auditDiagnostics.getResult(itemPath);
+        if (!previous || !fs.existsSync(itemPath)) {
+            vscode.window.showErrorMessage(`Cannot re-audit ${itemPath}: the item no longer exists.`);
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Auditing ${previous.itemName}...`,
+            cancellable: false
+        }, async () => {
+            const result = await securityAuditor.auditPath(itemPath, previous.itemName, previous.itemType);
+            if (AuditResultPanel.currentPanel) {
+                AuditResultPanel.createOrShow(context.extensionUri, [result]);
+            }
+            showAuditNotification(result);
+        });
+    }));
+
     // Helper function to show audit notification
-    function showAuditNotification(result: AuditResult) {
-        if (result.status === 'danger') {
+    function showAuditNotification(audited: AuditResult) {
+        const threshold = getSeverityThreshold();
+        // Findings accepted in the audit baseline do not count
+        const result = getAuditBaseline().apply(audited);
+        if ((result.status === 'danger' || result.status === 'warning') &&
+            result.issues.length > 0 && issuesAtOrAbove(result.issues, threshold).length === 0) {
+            vscode.window.showInformationMessage(`No findings at or above ${threshold} severity in ${result.itemName}.`);
+        } else if (result.status === 'danger') {
             vscode.window.showWarningMessage(
                 `Security issues found in ${result.itemName}!`,
                 'View Details'
             ).then(action => {
                 if (action === 'View Details') {
-                    AuditResultPanel.createOrShow(context.extensionUri, [result]);
+                    AuditResultPanel.createOrShow(context.extensionUri, [audited]);
                 }
             });
         } else if (result.status === 'warning') {
@@ -676,12 +1152,14 @@ export function activate(context: vscode.ExtensionContext) {
                 'View Details'
             ).then(action => {
                 if (action === 'View Details') {
-                    AuditResultPanel.createOrShow(context.extensionUri, [result]);
+                    AuditResultPanel.createOrShow(context.extensionUri, [audited]);
                 }
             });
         } else if (result.status === 'error') {
             vscode.window.showErrorMessage(`Audit failed for ${result.itemName}: Check output for details.`);
             securityAuditor.showOutput();
+        } else if (result.acceptedIssues.length > 0) {
+            vscode.window.showInformationMessage(`${result.itemName} is safe apart from ${result.acceptedIssues.length} accepted finding${result.acceptedIssues.length !== 1 ? 's' : ''}.`);
         } else {
             vscode.window.showInformationMessage(`${result.itemName} is safe!`);
         }
@@ -749,16 +1227,352 @@ export function activate(context: vscode.ExtensionContext) {
         skillTreeProvider.refresh();
     }));
 
+    // Add hook (from a Hooks category or the view title)
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.addHook', (node?: SkillTreeItem) => {
+        output.appendLine('Command: addHook');
+        const defaultLocation: HookLocation | undefined = node?.scope
+            ? { scope: node.scope, projectFolder: node.projectFolder }
+            : undefined;
+        HookEditorPanel.createOrShow(hookManager, () => skillTreeProvider.refresh(), undefined, defaultLocation);
+    }));
+
+    // Edit hook
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.editHook', (node: SkillTreeItem) => {
+        output.appendLine('Command: editHook');
+        if (node.hookItem) {
+            HookEditorPanel.createOrShow(hookManager, () => skillTreeProvider.refreshCategory(node.hookItem!.scope, 'hook', node.hookItem!.projectFolder), node.hookItem);
+        }
+    }));
+
+    // Delete hook
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.deleteHook', async (node: SkillTreeItem) => {
+        output.appendLine('Command: deleteHook');
+        if (node.hookItem) {
+            const answer = await vscode.window.showWarningMessage(
+                `Delete ${node.hookItem.event} hook "${node.label}" from ${node.hookItem.path}?`, 'Yes', 'No');
+            if (answer === 'Yes') {
+                try {
+                    await hookManager.deleteHook(node.hookItem);
+                    skillTreeProvider.refreshCategory(node.hookItem.scope, 'hook', node.hookItem.projectFolder);
+                    output.appendLine(`Deleted ${node.hookItem.event} hook ${node.label}`);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to delete hook: ${error}`);
+                }
+            }
+        }
+    }));
+
+    // Copy or move a hook to another settings file
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveHook', async (node: SkillTreeItem) => {
+        output.appendLine('Command: moveHook');
+        const hook = node.hookItem;
+        if (!hook) { return; }
+
+        const targets = hookManager.getHookLocations()
+            .filter(location => hookManager.getSettingsPath(location) !== hook.path)
+            .map(location => ({
+                label: hookManager.describeHookLocation(location),
+                detail: hookManager.getSettingsPath(location),
+                location
+            }));
+        const picked = await vscode.window.showQuickPick(targets, { placeHolder: 'Select target settings file' });
+        if (!picked) { return; }
+
+        const action = await vscode.window.showQuickPick(['Copy', 'Move'], { placeHolder: 'Select action' });
+        if (!action) { return; }
+        const mode: TransferMode = action === 'Move' ? 'move' : 'copy';
+
+        try {
+            await hookManager.transfer(hook, picked.location, mode);
+            vscode.window.showInformationMessage(`${mode === 'move' ? 'Moved' : 'Copied'} ${hook.event} hook to ${picked.label}`);
+            output.appendLine(`${mode === 'move' ? 'Moved' : 'Copied'} ${hook.event} hook ${node.label} to ${picked.detail}`);
+            skillTreeProvider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${mode} hook: ${error}`);
+        }
+    }));
+
+    // Create a missing CLAUDE.md / CLAUDE.local.md of a scope
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.createMemoryFile', async (node: SkillTreeItem) => {
+        output.appendLine('Command: createMemoryFile');
+        if (!node?.scope) { return; }
+        const location: AssetLocation = { scope: node.scope, projectFolder: node.projectFolder };
+
+        const missing = memoryManager.getStandardPaths(location).filter(candidate => !fs.existsSync(candidate.path));
+        if (missing.length === 0) {
+            vscode.window.showInformationMessage(`All memory files of ${describeLocation(location)} already exist`);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            missing.map(candidate => ({
+                label: path.basename(candidate.path),
+                description: candidate.kind === 'local' ? 'personal, not committed' : undefined,
+                detail: candidate.path,
+                filePath: candidate.path
+            })),
+            { placeHolder: 'Select memory file to create' }
+        );
+        if (!picked) { return; }
+
+        try {
+            memoryManager.createMemoryFile(picked.filePath);
+            skillTreeProvider.refreshCategory(location.scope, 'memory', location.projectFolder);
+            await vscode.window.showTextDocument(vscode.Uri.file(picked.filePath));
+            output.appendLine(`Created memory file ${picked.filePath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create memory file: ${error}`);
+        }
+    }));
+
+    // Add MCP server (from an MCP Servers category or the view title)
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.addMcpServer', async (node?: SkillTreeItem) => {
+        output.appendLine('Command: addMcpServer');
+
+        let location: AssetLocation | undefined = node?.scope ? { scope: node.scope, projectFolder: node.projectFolder } : undefined;
+        if (!location) {
+            const locations = [USER_LOCATION, ...getProjectRoots().map(projectLocation)].map(l => ({
+                label: describeLocation(l),
+                detail: mcpManager.getConfigPath(l),
+                location: l
+            }));
+            const picked = await vscode.window.showQuickPick(locations, { placeHolder: 'Where should the server be added?' });
+            if (!picked) { return; }
+            location = picked.location;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Server name',
+            placeHolder: 'e.g. github',
+            validateInput: value => /^[A-Za-z0-9_-]+$/.test(value) ? null : 'Use letters, digits, "-" and "_" only'
+        });
+        if (!name) { return; }
+
+        const transport = await vscode.window.showQuickPick(['stdio', 'http', 'sse'], { placeHolder: 'Transport' }) as McpTransport | undefined;
+        if (!transport) { return; }
+
+        let config: McpServerConfig;
+        if (transport === 'stdio') {
+            const commandLine = await vscode.window.showInputBox({
+                prompt: 'Command and arguments',
+                placeHolder: 'e.g. npx -y @modelcontextprotocol/server-github',
+                validateInput: value => value.trim() ? null : 'Command cannot be empty'
+            });
+            if (!commandLine) { return; }
+            const [command, ...args] = splitCommandLine(commandLine);
+
+            const envInput = await vscode.window.showInputBox({
+                prompt: 'Environment variables (optional)',
+                placeHolder: 'KEY=value OTHER_KEY=${OTHER_KEY}',
+                validateInput: value => splitCommandLine(value).every(pair => /^[A-Za-z_][A-Za-z0-9_]*=/.test(pair)) ? null : 'Use KEY=value pairs separated by spaces'
+            });
+            if (envInput === undefined) { return; }
+            const env = Object.fromEntries(splitCommandLine(envInput).map(pair => {
+                const index = pair.indexOf('=');
+                return [pair.slice(0, index), pair.slice(index + 1)];
+            }));
+
+            config = { command, args };
+            if (Object.keys(env).length > 0) {
+                config.env = env;
+            }
+        } else {
+            const url = await vscode.window.showInputBox({
+                prompt: 'Server URL',
+                placeHolder: 'https://example.com/mcp',
+                validateInput: value => /^https?:\/\//.test(value) ? null : 'Enter an http(s) URL'
+            });
+            if (!url) { return; }
+            config = { type: transport, url };
+        }
+
+        try {
+            await mcpManager.addServer(location, name, config);
+            vscode.window.showInformationMessage(`Added MCP server ${name} to ${describeLocation(location)}`);
+            output.appendLine(`Added MCP server ${name} to ${mcpManager.getConfigPath(location)}`);
+            skillTreeProvider.refreshCategory(location.scope, 'mcpServer', location.projectFolder);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to add MCP server: ${error}`);
+        }
+    }));
+
+    // Remove MCP server
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.removeMcpServer', async (node: SkillTreeItem) => {
+        output.appendLine('Command: removeMcpServer');
+        const server = node.mcpServerItem;
+        if (!server) { return; }
+
+        const answer = await vscode.window.showWarningMessage(`Remove MCP server ${server.name} from ${server.path}?`, 'Yes', 'No');
+        if (answer !== 'Yes') { return; }
+        try {
+            const trashEntry = await mcpManager.removeServer(server);
+            skillTreeProvider.refresh();
+            output.appendLine(`Removed MCP server ${server.name}`);
+            showDeletedNotification(trashEntry, `Removed MCP server ${server.name}`, () => skillTreeProvider.refresh());
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to remove MCP server: ${error}`);
+        }
+    }));
+
+    // Enable / disable MCP server
+    for (const enabled of [true, false]) {
+        const commandId = enabled ? 'enableMcpServer' : 'disableMcpServer';
+        context.subscriptions.push(vscode.commands.registerCommand(`claude-code-assist.${commandId}`, async (node: SkillTreeItem) => {
+            output.appendLine(`Command: ${commandId}`);
+            const server = node.mcpServerItem;
+            if (!server) { return; }
+            try {
+                await mcpManager.setEnabled(server, enabled);
+                output.appendLine(`${enabled ? 'Enabled' : 'Disabled'} MCP server ${server.name}`);
+                skillTreeProvider.refreshCategory(server.scope, 'mcpServer', server.projectFolder);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to ${enabled ? 'enable' : 'disable'} MCP server: ${error}`);
+            }
+        }));
+    }
+
+    // Move MCP server to user / project
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveMcpServerToUser', async (node: SkillTreeItem) => {
+        output.appendLine('Command: moveMcpServerToUser');
+        if (node.mcpServerItem && node.scope === 'project') {
+            await transferTreeAsset(node, mcpManager, node.mcpServerItem, 'mcpServer', 'user');
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveMcpServerToProject', async (node: SkillTreeItem) => {
+        output.appendLine('Command: moveMcpServerToProject');
+        if (node.mcpServerItem && node.scope === 'user') {
+            await transferTreeAsset(node, mcpManager, node.mcpServerItem, 'mcpServer', 'project');
+        }
+    }));
+
+    // Test an MCP server by running the initialize handshake
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.testMcpConnection', async (node: SkillTreeItem) => {
+        output.appendLine('Command: testMcpConnection');
+        const server = node.mcpServerItem;
+        if (!server) { return; }
+
+        // Project servers come from .mcp.json in the repository, so only run them with consent
+        if (server.scope === 'project' && server.transport === 'stdio' && server.config.command) {
+            if (!vscode.workspace.isTrusted) {
+                vscode.window.showWarningMessage(`Testing project MCP server ${server.name} requires a trusted workspace.`);
+                return;
+            }
+            const answer = await vscode.window.showWarningMessage(
+                `Testing ${server.name} runs this command from ${server.path}:\n\n${mcpManager.getCommandLine(server)}`,
+                { modal: true },
+                'Run'
+            );
+            if (answer !== 'Run') { return; }
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Testing MCP server ${server.name}...`,
+            cancellable: false
+        }, async () => {
+            try {
+                const result = await mcpManager.testConnection(server);
+                const serverInfo = result.serverName ? `${result.serverName}${result.serverVersion ? ` ${result.serverVersion}` : ''}` : server.name;
+                const tools = result.toolCount !== undefined ? `, ${result.toolCount} tool(s)` : '';
+                vscode.window.showInformationMessage(`${serverInfo} responded in ${result.durationMs} ms${tools}`);
+                output.appendLine(`MCP ${server.name}: protocol ${result.protocolVersion}, capabilities [${result.capabilities.join(', ')}]${tools}`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                output.appendLine(`MCP ${server.name} test failed: ${message}`);
+                vscode.window.showErrorMessage(`MCP server ${server.name} failed: ${message.split('\n')[0]}`, 'Show Output').then(action => {
+                    if (action === 'Show Output') {
+                        output.show();
+                    }
+                });
+            }
+        });
+    }));
+
     // Delete command
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.deleteCommand', async (node: SkillTreeItem) => {
         output.appendLine('Command: deleteCommand');
         if (node.commandItem) {
             const answer = await vscode.window.showWarningMessage(`Are you sure you want to delete ${node.label}?`, 'Yes', 'No');
             if (answer === 'Yes') {
-                await commandManager.deleteCommand(node.commandItem);
+                const trashEntry = await commandManager.deleteCommand(node.commandItem);
                 skillTreeProvider.refresh();
                 output.appendLine(`Deleted command ${node.label}`);
+                showDeletedNotification(trashEntry, `Deleted ${node.label}`, () => skillTreeProvider.refresh());
+            }
+        }
+    }));
+
+    // Delete output style
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.deleteOutputStyle', async (node: SkillTreeItem) => {
+        output.appendLine('Command: deleteOutputStyle');
+        if (node.outputStyleItem) {
+            const answer = await vscode.window.showWarningMessage(`Are you sure you want to delete ${node.label}?`, 'Yes', 'No');
+            if (answer === 'Yes') {
+                const trashEntry = await outputStyleManager.deleteOutputStyle(node.outputStyleItem);
+                skillTreeProvider.refresh();
+                output.appendLine(`Deleted output style ${node.label}`);
+                showDeletedNotification(trashEntry, `Deleted ${node.label}`, () => skillTreeProvider.refresh());
+            }
+        }
+    }));
+
+    // Move output style to user
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveOutputStyleToUser', async (node: SkillTreeItem) => {
+        output.appendLine('Command: moveOutputStyleToUser');
+        if (node.outputStyleItem && node.scope === 'project') {
+            await transferTreeAsset(node, outputStyleManager, node.outputStyleItem, 'outputStyle', 'user');
+        }
+    }));
+
+    // Move output style to project
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveOutputStyleToProject', async (node: SkillTreeItem) => {
+        output.appendLine('Command: moveOutputStyleToProject');
+        if (node.outputStyleItem && node.scope === 'user') {
+            await transferTreeAsset(node, outputStyleManager, node.outputStyleItem, 'outputStyle', 'project');
+        }
+    }));
+
+    // Run the status line command against a sample session payload
+    context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.previewStatusLine', async (node: SkillTreeItem) => {
+        output.appendLine('Command: previewStatusLine');
+        const statusLine = node.statusLineItem;
+        if (!statusLine) { return; }
+
+        // Project settings come with the repository, so only run their command with consent
+        if (statusLine.scope === 'project') {
+            if (!vscode.workspace.isTrusted) {
+                vscode.window.showWarningMessage('Previewing a project status line requires a trusted workspace.');
+                return;
+            }
+            const answer = await vscode.window.showWarningMessage(
+                `Previewing runs this command from ${statusLine.path}:\n\n${statusLine.command}`,
+                { modal: true },
+                'Run'
+            );
+            if (answer !== 'Run') { return; }
+        }
+
+        try {
+            const preview = await statusLineManager.preview(statusLine);
+            // Strip ANSI colors for the notification; the output channel keeps the raw text
+            const text = preview.output.replace(/\x1b\[[0-9;]*m/g, '');
+            output.appendLine(`Status line preview (${preview.durationMs} ms, exit ${preview.exitCode}): ${preview.output}`);
+            if (preview.stderr) {
+                output.appendLine(`  stderr: ${preview.stderr}`);
+            }
+            if (preview.exitCode !== 0 || !text.trim()) {
+                vscode.window.showWarningMessage(
+                    `Status line exited with code ${preview.exitCode}${text.trim() ? `: ${text}` : ' and printed nothing'}`, 'Show Output'
+                ).then(action => {
+                    if (action === 'Show Output') {
+                        output.show();
+                    }
+                });
+            } else {
+                vscode.window.showInformationMessage(`Status line: ${text}`);
             }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Status line preview failed: ${error}`);
         }
     }));
 
@@ -766,24 +1580,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveCommandToUser', async (node: SkillTreeItem) => {
         output.appendLine('Command: moveCommandToUser');
         if (node.commandItem && node.scope === 'project') {
-            // Ask user if they want to Move or Copy
-            const action = await vscode.window.showQuickPick(['Copy to User', 'Move to User'], { placeHolder: 'Select action' });
-            if (!action) { return; }
-
-            try {
-                if (action === 'Move to User') {
-                    await commandManager.moveToUser(node.commandItem);
-                    vscode.window.showInformationMessage(`Moved ${node.label} to User`);
-                    output.appendLine(`Moved command ${node.label} to user`);
-                } else {
-                    await commandManager.copyToUser(node.commandItem);
-                    vscode.window.showInformationMessage(`Copied ${node.label} to User`);
-                    output.appendLine(`Copied command ${node.label} to user`);
-                }
-                skillTreeProvider.refresh();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to ${action === 'Move to User' ? 'move' : 'copy'} command: ${error}`);
-            }
+            await transferTreeAsset(node, commandManager, node.commandItem, 'command', 'user');
         }
     }));
 
@@ -791,23 +1588,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.moveCommandToProject', async (node: SkillTreeItem) => {
         output.appendLine('Command: moveCommandToProject');
         if (node.commandItem && node.scope === 'user') {
-            const action = await vscode.window.showQuickPick(['Copy to Project', 'Move to Project'], { placeHolder: 'Select action' });
-            if (!action) { return; }
-
-            try {
-                if (action === 'Move to Project') {
-                    await commandManager.moveToProject(node.commandItem);
-                    vscode.window.showInformationMessage(`Moved ${node.label} to Project`);
-                    output.appendLine(`Moved command ${node.label} to project`);
-                } else {
-                    await commandManager.copyToProject(node.commandItem);
-                    vscode.window.showInformationMessage(`Copied ${node.label} to Project`);
-                    output.appendLine(`Copied command ${node.label} to project`);
-                }
-                skillTreeProvider.refresh();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to ${action === 'Move to Project' ? 'move' : 'copy'} command: ${error}`);
-            }
+            await transferTreeAsset(node, commandManager, node.commandItem, 'command', 'project');
         }
     }));
 
@@ -815,23 +1596,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.movePluginToUser', async (node: SkillTreeItem) => {
         output.appendLine('Command: movePluginToUser');
         if (node.pluginItem && node.scope === 'project') {
-            const action = await vscode.window.showQuickPick(['Copy to User', 'Move to User'], { placeHolder: 'Select action' });
-            if (!action) { return; }
-
-            try {
-                if (action === 'Move to User') {
-                    await pluginManager.moveToUser(node.pluginItem);
-                    vscode.window.showInformationMessage(`Moved ${node.label} to User`);
-                    output.appendLine(`Moved plugin ${node.label} to user`);
-                } else {
-                    await pluginManager.copyToUser(node.pluginItem);
-                    vscode.window.showInformationMessage(`Copied ${node.label} to User`);
-                    output.appendLine(`Copied plugin ${node.label} to user`);
-                }
-                skillTreeProvider.refresh();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to ${action === 'Move to User' ? 'move' : 'copy'} plugin: ${error}`);
-            }
+            await transferTreeAsset(node, pluginManager, node.pluginItem, 'plugin', 'user');
         }
     }));
 
@@ -839,25 +1604,22 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('claude-code-assist.movePluginToProject', async (node: SkillTreeItem) => {
         output.appendLine('Command: movePluginToProject');
         if (node.pluginItem && node.scope === 'user') {
-            const action = await vscode.window.showQuickPick(['Copy to Project', 'Move to Project'], { placeHolder: 'Select action' });
-            if (!action) { return; }
-
-            try {
-                if (action === 'Move to Project') {
-                    await pluginManager.moveToProject(node.pluginItem);
-                    vscode.window.showInformationMessage(`Moved ${node.label} to Project`);
-                    output.appendLine(`Moved plugin ${node.label} to project`);
-                } else {
-                    await pluginManager.copyToProject(node.pluginItem);
-                    vscode.window.showInformationMessage(`Copied ${node.label} to Project`);
-                    output.appendLine(`Copied plugin ${node.label} to project`);
-                }
-                skillTreeProvider.refresh();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to ${action === 'Move to Project' ? 'move' : 'copy'} plugin: ${error}`);
-            }
+            await transferTreeAsset(node, pluginManager, node.pluginItem, 'plugin', 'project');
         }
     }));
 }
 
 export function deactivate() { }
+
+/**
+ * Split a command line on whitespace, keeping single or double quoted parts together
+ */
+function splitCommandLine(commandLine: string): string[] {
+    const parts: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(commandLine)) !== null) {
+        parts.push(match[1] ?? match[2] ?? match[3]);
+    }
+    return parts;
+}